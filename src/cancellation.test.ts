@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { withCancellation } from "./cancellation";
+import { AbortError, TimeoutError } from "./errors";
+
+describe(withCancellation, () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const never = () => new Promise<never>(() => {});
+
+  it("should return the promise unchanged without options", () => {
+    const promise = Promise.resolve(1);
+    expect(withCancellation(promise, new AbortController())).toBe(promise);
+  });
+
+  it("should settle with the promise if it finishes first", async () => {
+    const controller = new AbortController();
+    const res = withCancellation(Promise.resolve(1), controller, { timeoutMs: 10 });
+    expect(await res).toEqual(1);
+    const error = new Error();
+    const rejected = withCancellation(Promise.reject(error), controller, {
+      timeoutMs: 10,
+    });
+    await expect(rejected).rejects.toBe(error);
+    expect(vi.getTimerCount()).toEqual(0);
+    expect(controller.signal.aborted).toBe(false);
+  });
+
+  it("should reject with a TimeoutError when the timeout expires", async () => {
+    const controller = new AbortController();
+    const res = withCancellation(never(), controller, { timeoutMs: 10 });
+    vi.advanceTimersByTime(10);
+    await expect(res).rejects.toThrow(new TimeoutError(10));
+    expect(controller.signal.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should reject with an AbortError when the signal aborts", async () => {
+    const source = new AbortController();
+    const controller = new AbortController();
+    const res = withCancellation(never(), controller, { signal: source.signal });
+    source.abort("stop");
+    const err: unknown = await res.catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(AbortError);
+    expect((err as AbortError).cause).toEqual("stop");
+    expect(controller.signal.reason).toBe(err);
+  });
+
+  it("should reject immediately if the signal is already aborted", async () => {
+    const res = withCancellation(never(), new AbortController(), {
+      signal: AbortSignal.abort(),
+      timeoutMs: 10,
+    });
+    await expect(res).rejects.toBeInstanceOf(AbortError);
+    expect(vi.getTimerCount()).toEqual(0);
+  });
+
+  it("should stop listening to the signal once settled", async () => {
+    const source = new AbortController();
+    const remove = vi.spyOn(source.signal, "removeEventListener");
+    await withCancellation(Promise.resolve(), new AbortController(), {
+      signal: source.signal,
+    });
+    expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+});
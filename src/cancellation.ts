@@ -0,0 +1,64 @@
+import { AbortError, TimeoutError } from "./errors";
+
+/**
+ * Options for cancelling async work.
+ */
+export type CancellationOptions = {
+  /**
+   * Maximum time to wait for async work, in milliseconds. On expiry, fails with a {@link TimeoutError}.
+   */
+  timeoutMs?: number;
+  /**
+   * Signal that cancels async work when aborted, failing with an {@link AbortError}.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Settle with `promise`, unless cancelled first by a timeout or abort signal.
+ *
+ * On cancellation, rejects with a {@link TimeoutError} or {@link AbortError} and aborts
+ * `controller` with that error so the underlying work can stop cooperatively.
+ */
+export function withCancellation<T>(
+  promise: Promise<T>,
+  controller: AbortController,
+  options?: CancellationOptions
+): Promise<T> {
+  const timeoutMs = options?.timeoutMs;
+  const signal = options?.signal;
+  if (timeoutMs === undefined && !signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const cancel = (err: Error) => {
+      cleanup();
+      controller.abort(err);
+      reject(err);
+    };
+    const onAbort = () => cancel(new AbortError(signal?.reason));
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => cancel(new TimeoutError(timeoutMs)), timeoutMs);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort);
+    }
+    promise.then(
+      (v) => {
+        cleanup();
+        resolve(v);
+      },
+      (e: unknown) => {
+        cleanup();
+        reject(e);
+      }
+    );
+  });
+}
@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { coerceError } from "./coerce-error";
+import { coerceError, registerCoercer } from "./coerce-error";
 import { jsTypes, nonErrorTypes } from "./test-helpers";
 
 describe(coerceError, () => {
@@ -97,4 +97,142 @@ describe(coerceError, () => {
       expect(res.cause).toBe(value);
     }
   });
+
+  it("should preserve the fields of error-like objects", () => {
+    const errorLike = {
+      message: "Not found",
+      name: "NotFoundError",
+      code: "ENOENT",
+      stack: "NotFoundError: Not found\n    at somewhere",
+    };
+    const res = coerceError(errorLike);
+    expect(res).toBeInstanceOf(Error);
+    expect(res.message).toEqual("Not found");
+    expect(res.name).toEqual("NotFoundError");
+    expect((res as Error & { code: unknown }).code).toEqual("ENOENT");
+    expect(res.stack).toEqual(errorLike.stack);
+    expect(res.cause).toBe(errorLike);
+  });
+
+  it("should only preserve the fields error-like objects have", () => {
+    const res = coerceError({ message: "oops", name: 1 });
+    expect(res.message).toEqual("oops");
+    expect(res.name).toEqual("Error");
+    expect("code" in res).toBe(false);
+    expect(res.stack).toContain("Error: oops");
+  });
+
+  it("should describe the contents of maps and sets", () => {
+    const map = new Map<unknown, unknown>([["a", 1]]);
+    expect(coerceError(map).message).toEqual('Map [["a",1]]');
+    expect(coerceError(new Set([1, 2])).message).toEqual("Set [1,2]");
+  });
+
+  it("should name class instances that serialize to an empty object", () => {
+    class Response {
+      get status() {
+        return 404;
+      }
+    }
+    expect(coerceError(new Response()).message).toEqual("Response {}");
+    expect(coerceError(Object.create(null)).message).toEqual("{}");
+  });
+
+  it("should describe nested values JSON can't represent", () => {
+    const res = coerceError({
+      big: BigInt(1),
+      sym: Symbol("s"),
+      fn: function named() {},
+      anon: (() => () => {})(),
+    });
+    expect(res.message).toEqual(
+      '{"big":"1n","sym":"Symbol(s)","fn":"[Function named]","anon":"[Function anonymous]"}'
+    );
+  });
+
+  it("should mark circular references", () => {
+    type ObjectWithRef = { ref?: object };
+    const obj1: ObjectWithRef = {};
+    const obj2: ObjectWithRef = {};
+    obj1.ref = obj2;
+    obj2.ref = obj1;
+    expect(coerceError(obj1).message).toEqual('{"ref":{"ref":"[Circular]"}}');
+    const map = new Map<string, unknown>();
+    map.set("self", map);
+    expect(coerceError(map).message).toEqual('Map [["self","[Circular]"]]');
+  });
+
+  it("should not mark repeated non-circular references", () => {
+    const shared = { a: 1 };
+    expect(coerceError({ x: shared, y: shared }).message).toEqual(
+      '{"x":{"a":1},"y":{"a":1}}'
+    );
+  });
+
+  it("should fall back to String if an object serializes to nothing", () => {
+    const res = coerceError({ toJSON: () => undefined });
+    expect(res.message).toEqual("[object Object]");
+  });
+
+  it("should truncate very long messages", () => {
+    const res = coerceError("x".repeat(1500));
+    expect(res.message).toEqual(`${"x".repeat(1000)}... (500 more characters)`);
+    expect(coerceError({ message: "y".repeat(1001) }).message).toEqual(
+      `${"y".repeat(1000)}... (1 more characters)`
+    );
+  });
+
+  describe(registerCoercer, () => {
+    class Response {
+      status: number;
+      constructor(status: number) {
+        this.status = status;
+      }
+    }
+    class HttpError extends Error {}
+
+    it("should use registered coercers for non-error values", () => {
+      const unregister = registerCoercer((e) =>
+        e instanceof Response ? new HttpError(`HTTP ${e.status}`) : undefined
+      );
+      try {
+        const res = coerceError(new Response(404));
+        expect(res).toBeInstanceOf(HttpError);
+        expect(res.message).toEqual("HTTP 404");
+        expect(coerceError("other").message).toEqual("other");
+      } finally {
+        unregister();
+      }
+      expect(coerceError(new Response(404))).not.toBeInstanceOf(HttpError);
+    });
+
+    it("should not use registered coercers for errors", () => {
+      const coercer = vi.fn(() => new HttpError());
+      const unregister = registerCoercer(coercer);
+      const error = new Error();
+      expect(coerceError(error)).toBe(error);
+      expect(coercer).not.toHaveBeenCalled();
+      unregister();
+    });
+
+    it("should try coercers in registration order, skipping ones that throw", () => {
+      const first = new Error("first");
+      const unregisterThrowing = registerCoercer(() => {
+        throw new Error();
+      });
+      const unregisterFirst = registerCoercer(() => first);
+      const unregisterSecond = registerCoercer(() => new Error("second"));
+      expect(coerceError("value")).toBe(first);
+      unregisterThrowing();
+      unregisterFirst();
+      unregisterSecond();
+    });
+
+    it("should ignore repeated unregistration", () => {
+      const unregister = registerCoercer(() => new HttpError());
+      unregister();
+      unregister();
+      expect(coerceError("value")).not.toBeInstanceOf(HttpError);
+    });
+  });
 });
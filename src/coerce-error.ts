@@ -1,9 +1,50 @@
+import { emitCoerce } from "./hooks";
+
+/**
+ * Converts an unknown thrown value to an `Error`, or returns `undefined` to defer to the next coercer.
+ */
+export type Coercer = (e: unknown) => Error | undefined;
+
+const coercers: Coercer[] = [];
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * Register a custom coercer for app-specific thrown values.
+ *
+ * Coercers are tried in registration order for every non-`Error` value passed to `coerceError`,
+ * before the built-in conversions. A coercer that throws is skipped.
+ *
+ * @param coercer - function converting a thrown value to an `Error`, or returning `undefined` to skip it
+ * @returns a function that unregisters the coercer
+ *
+ * @example
+ * ```typescript
+ * registerCoercer((e) =>
+ *   e instanceof Response ? new HttpError(e.status, e.statusText) : undefined
+ * );
+ * ```
+ */
+export function registerCoercer(coercer: Coercer): () => void {
+  coercers.push(coercer);
+  return () => {
+    const i = coercers.indexOf(coercer);
+    if (i !== -1) {
+      coercers.splice(i, 1);
+    }
+  };
+}
+
 /**
  * Coerce an unknown value to an `Error` instance, converting it if needed.
  *
  * @param e - unknown value to treat as an error.
  * @returns `e` unchanged if already an `Error`, otherwise converts `e` to an `Error` and sets `e` as the cause.
  *
+ * Error-like objects (with a `message`) keep their `message`, `name`, `code`, and `stack`.
+ * Other values are converted to a descriptive message, truncated if very long.
+ * Custom conversions can be added with {@link registerCoercer}.
+ *
  * In general, `safeTry` is more ergonomic than using this function directly.
  *
  * @example
@@ -20,15 +61,118 @@ export function coerceError(e: unknown): Error {
   if (e instanceof Error) {
     return e;
   }
-  return new Error(unknownToString(e), { cause: e });
+  const err = convert(e);
+  emitCoerce(err);
+  return err;
+}
+
+function convert(e: unknown): Error {
+  for (const coercer of coercers) {
+    try {
+      const err = coercer(e);
+      if (err) {
+        return err;
+      }
+    } catch {
+      continue;
+    }
+  }
+  if (isErrorLike(e)) {
+    return fromErrorLike(e);
+  }
+  return new Error(truncate(unknownToString(e)), { cause: e });
+}
+
+type ErrorLike = {
+  message: string;
+  name?: unknown;
+  code?: unknown;
+  stack?: unknown;
+};
+
+function isErrorLike(e: unknown): e is ErrorLike {
+  return (
+    typeof e === "object" &&
+    e !== null &&
+    typeof (e as { message?: unknown }).message === "string"
+  );
+}
+
+function fromErrorLike(e: ErrorLike): Error {
+  const err = new Error(truncate(e.message), { cause: e });
+  if (typeof e.name === "string") {
+    err.name = e.name;
+  }
+  if (typeof e.stack === "string") {
+    err.stack = e.stack;
+  }
+  if (e.code !== undefined) {
+    Object.assign(err, { code: e.code });
+  }
+  return err;
+}
+
+function truncate(msg: string): string {
+  if (msg.length <= MAX_MESSAGE_LENGTH) {
+    return msg;
+  }
+  const remaining = msg.length - MAX_MESSAGE_LENGTH;
+  return `${msg.slice(0, MAX_MESSAGE_LENGTH)}... (${remaining} more characters)`;
 }
 
 function unknownToString(e: unknown): string {
   if (e === null) return "null";
   if (typeof e !== "object") return String(e);
   try {
-    return JSON.stringify(e);
+    const json = JSON.stringify(e, safeReplacer());
+    // Name class instances whose contents are lost in JSON, e.g. `Map [["a",1]]` or `Response {}`
+    const className = (e as { constructor?: { name?: string } }).constructor?.name;
+    if (
+      e instanceof Map ||
+      e instanceof Set ||
+      (json === "{}" && isClassInstance(e))
+    ) {
+      return `${className} ${json}`;
+    }
+    return json ?? String(e);
   } catch {
     return String(e);
   }
 }
+
+function isClassInstance(e: object): boolean {
+  const proto: unknown = Object.getPrototypeOf(e);
+  return proto !== null && proto !== Object.prototype;
+}
+
+/**
+ * `JSON.stringify` replacer handling values that JSON can't represent, including circular references.
+ */
+function safeReplacer() {
+  const ancestors: unknown[] = [];
+  return function (this: unknown, _key: string, value: unknown) {
+    if (typeof value === "bigint") {
+      return `${value}n`;
+    }
+    if (typeof value === "symbol") {
+      return value.toString();
+    }
+    if (typeof value === "function") {
+      return `[Function ${value.name || "anonymous"}]`;
+    }
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+    // `this` is the object containing `value`, so drop ancestors that aren't on its path
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(value)) {
+      return "[Circular]";
+    }
+    const replaced =
+      value instanceof Map || value instanceof Set ? [...value] : value;
+    ancestors.push(value, replaced);
+    return replaced;
+  };
+}
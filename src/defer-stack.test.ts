@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+import { DeferStack } from "./defer-stack";
+import { DeferError } from "./errors";
+
+const disposable = () => ({ [Symbol.dispose]: vi.fn() });
+const asyncDisposable = () => ({ [Symbol.asyncDispose]: vi.fn(async () => {}) });
+
+describe(DeferStack, () => {
+  it("should execute deferred callbacks when disposed by a using declaration", () => {
+    const deferred = vi.fn();
+    {
+      using stack = new DeferStack();
+      stack.defer(deferred);
+      expect(deferred).not.toHaveBeenCalled();
+    }
+    expect(deferred).toHaveBeenCalledOnce();
+  });
+
+  it("should await deferred callbacks when disposed by an await using declaration", async () => {
+    const order: string[] = [];
+    {
+      await using stack = new DeferStack();
+      stack.defer(async () => {
+        await Promise.resolve();
+        order.push("first");
+      });
+      stack.defer(() => order.push("second"));
+    }
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("should respect the order option", () => {
+    const order: number[] = [];
+    const stack = new DeferStack({ order: "lifo" });
+    stack.defer(() => order.push(1));
+    stack.defer(() => order.push(2));
+    stack[Symbol.dispose]();
+    expect(order).toEqual([2, 1]);
+  });
+
+  it("should dispose resources registered with use", async () => {
+    const sync = disposable();
+    const async = asyncDisposable();
+    const stack = new DeferStack();
+    expect(stack.use(sync)).toBe(sync);
+    expect(stack.use(async)).toBe(async);
+    await stack[Symbol.asyncDispose]();
+    expect(sync[Symbol.dispose]).toHaveBeenCalledOnce();
+    expect(async[Symbol.asyncDispose]).toHaveBeenCalledOnce();
+  });
+
+  it("should only execute each callback once", () => {
+    const deferred = vi.fn();
+    const stack = new DeferStack();
+    stack.defer(deferred);
+    stack[Symbol.dispose]();
+    stack[Symbol.dispose]();
+    expect(deferred).toHaveBeenCalledOnce();
+  });
+
+  it("should throw a DeferError if a deferred callback fails", async () => {
+    const error = new Error("cleanup failed");
+    const stack = new DeferStack();
+    stack.defer(() => {
+      throw error;
+    });
+    expect(() => stack[Symbol.dispose]()).toThrow(
+      new DeferError(undefined, [error])
+    );
+
+    stack.defer(() => Promise.reject(error));
+    await expect(stack[Symbol.asyncDispose]()).rejects.toBeInstanceOf(DeferError);
+  });
+
+  it("should pass deferred callback errors to onDeferError when provided", () => {
+    const onDeferError = vi.fn();
+    const stack = new DeferStack({ onDeferError });
+    stack.defer(() => {
+      throw new Error();
+    });
+    expect(() => stack[Symbol.dispose]()).not.toThrow();
+    expect(onDeferError).toHaveBeenCalledOnce();
+  });
+
+  it("should pass a successful outcome to deferred callbacks", () => {
+    const deferred = vi.fn();
+    const onSuccess = vi.fn();
+    const onError = vi.fn();
+    const stack = new DeferStack();
+    stack.defer(deferred);
+    stack.defer.onSuccess(onSuccess);
+    stack.defer.onError(onError);
+    stack[Symbol.dispose]();
+    expect(deferred).toHaveBeenCalledWith({ val: undefined });
+    expect(onSuccess).toHaveBeenCalledOnce();
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
+
+describe("defer.use", () => {
+  it("should ignore null and undefined", () => {
+    const stack = new DeferStack();
+    expect(stack.use(null)).toBeNull();
+    expect(stack.use(undefined)).toBeUndefined();
+    expect(() => stack[Symbol.dispose]()).not.toThrow();
+  });
+
+  it("should prefer Symbol.asyncDispose when disposed asynchronously", async () => {
+    const resource = { ...disposable(), ...asyncDisposable() };
+    const stack = new DeferStack();
+    stack.use(resource);
+    await stack[Symbol.asyncDispose]();
+    expect(resource[Symbol.asyncDispose]).toHaveBeenCalledOnce();
+    expect(resource[Symbol.dispose]).not.toHaveBeenCalled();
+  });
+
+  it("should prefer Symbol.dispose when disposed synchronously", () => {
+    const resource = { ...disposable(), ...asyncDisposable() };
+    const stack = new DeferStack();
+    stack.use(resource);
+    stack[Symbol.dispose]();
+    expect(resource[Symbol.dispose]).toHaveBeenCalledOnce();
+    expect(resource[Symbol.asyncDispose]).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to Symbol.asyncDispose when disposed synchronously", () => {
+    const resource = asyncDisposable();
+    const stack = new DeferStack();
+    stack.use(resource);
+    stack[Symbol.dispose]();
+    expect(resource[Symbol.asyncDispose]).toHaveBeenCalledOnce();
+  });
+
+  it("should throw if the resource is not disposable", () => {
+    const stack = new DeferStack();
+    expect(() => stack.use({} as Disposable)).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,371 @@
+import { coerceError } from "./coerce-error";
+import { DeferError } from "./errors";
+import { emitDeferError, type ErrorHookApi } from "./hooks";
+import { isPanic } from "./panic";
+import type { Result } from "./types";
+
+/**
+ * A callback registered with `defer`. It is passed the scope's outcome, and may return a Promise.
+ */
+export type DeferredCallback<T = unknown> = (outcome: Result<T>) => unknown;
+
+/**
+ * A resource that can be registered with `defer.use`.
+ *
+ * `null` and `undefined` are accepted and ignored, matching `using` declarations.
+ */
+export type DisposableResource = Disposable | AsyncDisposable | null | undefined;
+
+/**
+ * Registers a callback for execution after the scope terminates.
+ *
+ * Callbacks are passed the scope's outcome: `{ val }` if it succeeded, or `{ err }` if it failed.
+ * Callbacks may return a Promise. Async scopes await each deferred callback before settling.
+ * Sync scopes cannot wait for deferred Promises, so their rejections are passed to the
+ * `onDeferError` option and the global `onDeferError` hooks instead. If neither is registered,
+ * or if the rejection is a panic, the rejection is left unhandled.
+ *
+ * Callbacks registered after the scope has executed its deferred callbacks, e.g. by a scoped
+ * function still running after a timeout, are executed immediately with the scope's final
+ * outcome. Their errors are handled the same way, except that errors thrown synchronously are
+ * re-thrown to the registering code instead of being left unhandled.
+ *
+ * `T` is the scope's return type when it is passed to the scope, e.g. `scope.safe<number>(...)`.
+ * Otherwise, and for a `defer` function whose scope is not known, e.g. one returned by
+ * `currentDefer`, it is `unknown`.
+ */
+export type Defer<T = unknown> = {
+  (fn: DeferredCallback<T>): void;
+  /**
+   * Registers a callback that is only executed if the scope fails. It is passed the scope's error.
+   */
+  onError(fn: (err: Error) => unknown): void;
+  /**
+   * Registers a callback that is only executed if the scope succeeds. It is passed the scope's value.
+   */
+  onSuccess(fn: (val: T) => unknown): void;
+  /**
+   * Registers a callback whose returned `Result` replaces the scope's outcome.
+   *
+   * Sync scopes cannot wait for a returned Promise, so the outcome of a sync scope can only be
+   * replaced synchronously.
+   */
+  replace(fn: (outcome: Result<T>) => Result<T> | Promise<Result<T>>): void;
+  /**
+   * Registers a `Disposable` or `AsyncDisposable` resource for disposal after the scope terminates.
+   *
+   * Async scopes dispose resources with `Symbol.asyncDispose` if available, otherwise
+   * `Symbol.dispose`, like `await using`. Sync scopes use `Symbol.dispose` like `using`, only
+   * falling back to calling `Symbol.asyncDispose` without awaiting it.
+   *
+   * @returns `resource`, unchanged
+   * @throws TypeError if `resource` is not disposable
+   */
+  use<R extends DisposableResource>(resource: R): R;
+  /**
+   * The `defer` function of the enclosing scope, if this scope was started inside another scope.
+   *
+   * Lets nested code register cleanup on an outer scope, e.g. `defer.parent?.(() => ...)`.
+   * The outer scope must outlive the registration: callbacks registered after it has executed
+   * its deferred callbacks, e.g. by an async scope nested in a sync one, are executed immediately.
+   */
+  readonly parent: Defer | undefined;
+};
+
+/**
+ * A registered deferred action, passed the scope's current outcome so it can inspect or replace it.
+ */
+export type DeferEntry<T = unknown> = (state: {
+  outcome: Result<T>;
+  /** Whether the deferred actions are being awaited. */
+  readonly async: boolean;
+}) => unknown;
+
+/**
+ * Options for customizing how deferred callbacks are executed.
+ */
+export type DeferStackOptions = {
+  /**
+   * Order in which deferred actions are executed.
+   *
+   * - `"fifo"` - first registered, first executed (default)
+   * - `"lifo"` - last registered, first executed, matching Go's `defer`
+   */
+  order?: "fifo" | "lifo";
+  /**
+   * Called with each error thrown by a deferred callback.
+   *
+   * When provided, deferred callback errors are passed to this hook instead of being
+   * surfaced as a {@link DeferError}. Panics are never passed to this hook.
+   */
+  onDeferError?: (err: Error) => void;
+};
+
+function isDisposable(resource: object): resource is Disposable | AsyncDisposable {
+  return Symbol.asyncDispose in resource || Symbol.dispose in resource;
+}
+
+/**
+ * Disposes `resource` like `await using` when executed asynchronously, otherwise like `using`.
+ * Sync execution only falls back to `Symbol.asyncDispose`, without awaiting it, if there is no `Symbol.dispose`.
+ */
+function dispose(resource: Disposable | AsyncDisposable, isAsync: boolean): unknown {
+  if (isAsync && Symbol.asyncDispose in resource) {
+    return resource[Symbol.asyncDispose]();
+  }
+  if (Symbol.dispose in resource) {
+    return resource[Symbol.dispose]();
+  }
+  return resource[Symbol.asyncDispose]();
+}
+
+/**
+ * Creates a `defer` function that passes each registered callback and resource to `register`.
+ */
+export function createDefer<T>(
+  register: (entry: DeferEntry<T>) => void,
+  parent?: Defer
+): Defer<T> {
+  const defer = (fn: DeferredCallback<T>) => {
+    register((state) => fn(state.outcome));
+  };
+  const onError = (fn: (err: Error) => unknown) => {
+    register(({ outcome }) => (outcome.err ? fn(outcome.err) : undefined));
+  };
+  const onSuccess = (fn: (val: T) => unknown) => {
+    register(({ outcome }) => (outcome.err ? undefined : fn(outcome.val)));
+  };
+  const replace = (fn: (outcome: Result<T>) => Result<T> | Promise<Result<T>>) => {
+    register((state) => {
+      const res = fn(state.outcome);
+      if (res instanceof Promise) {
+        return res.then((outcome) => {
+          state.outcome = outcome;
+        });
+      }
+      state.outcome = res;
+    });
+  };
+  const use = <R extends DisposableResource>(resource: R): R => {
+    if (resource !== null && resource !== undefined) {
+      if (!isDisposable(resource)) {
+        throw new TypeError("Resource is not disposable");
+      }
+      register((state) => dispose(resource, state.async));
+    }
+    return resource;
+  };
+  return Object.assign(defer, { onError, onSuccess, replace, use, parent });
+}
+
+function nextDefer<T>(queue: DeferEntry<T>[], options?: DeferStackOptions) {
+  return options?.order === "lifo" ? queue.pop() : queue.shift();
+}
+
+/**
+ * Reports an error thrown by a deferred callback, collecting it in `errors` unless handled by
+ * `onDeferError`.
+ *
+ * Errors that can't be included in an outcome, i.e. when `errors` is `undefined`, are handled
+ * by `onDeferError` or the global hooks. Panics are never handled there.
+ *
+ * @returns the error, if it was neither collected nor handled
+ */
+function reportDeferError(
+  e: unknown,
+  errors: Error[] | undefined,
+  options: DeferStackOptions | undefined,
+  api: ErrorHookApi,
+  isAsync: boolean
+): Error | undefined {
+  const err = coerceError(e);
+  const reported = emitDeferError(err, api, isAsync);
+  // Panics are not handled by `onDeferError`, so that they reach the scope's caller
+  if (options?.onDeferError && !isPanic(err)) {
+    try {
+      options.onDeferError(err);
+      return undefined;
+    } catch (hookErr: unknown) {
+      return reportDeferError(hookErr, errors, undefined, api, isAsync);
+    }
+  }
+  if (errors) {
+    errors.push(err);
+    return undefined;
+  }
+  return reported && !isPanic(err) ? undefined : err;
+}
+
+function withDeferErrors<T>(outcome: Result<T>, deferErrors: Error[]): Result<T> {
+  if (deferErrors.length === 0) {
+    return outcome;
+  }
+  return { err: new DeferError(outcome.err, deferErrors) };
+}
+
+/**
+ * Executes every deferred callback in `queue` without awaiting them.
+ *
+ * @returns `outcome`, as replaced by any deferred callbacks, or a {@link DeferError} if any failed
+ */
+export function executeDefers<T>(
+  queue: DeferEntry<T>[],
+  outcome: Result<T>,
+  options: DeferStackOptions | undefined,
+  api: ErrorHookApi
+): Result<T> {
+  const state = { outcome, async: false };
+  const errors: Error[] = [];
+  for (let fn = nextDefer(queue, options); fn; fn = nextDefer(queue, options)) {
+    executeDefer(fn, state, errors, options, api);
+  }
+  return withDeferErrors(state.outcome, errors);
+}
+
+/**
+ * Executes a deferred callback without awaiting it, collecting a thrown error in `errors`.
+ *
+ * Errors that are neither collected nor handled are re-thrown, and rejections left unhandled.
+ */
+function executeDefer<T>(
+  fn: DeferEntry<T>,
+  state: { outcome: Result<T>; readonly async: boolean },
+  errors: Error[] | undefined,
+  options: DeferStackOptions | undefined,
+  api: ErrorHookApi
+) {
+  try {
+    const res = fn(state);
+    if (res instanceof Promise) {
+      // This rejection can't be waited for, so it can't be included in the outcome.
+      res.catch((e: unknown) => {
+        const unhandled = reportDeferError(e, undefined, options, api, true);
+        if (unhandled) {
+          throw unhandled;
+        }
+      });
+    }
+  } catch (e: unknown) {
+    const unhandled = reportDeferError(e, errors, options, api, false);
+    if (unhandled) {
+      throw unhandled;
+    }
+  }
+}
+
+/**
+ * Executes a deferred callback registered after its scope already executed its deferred callbacks.
+ *
+ * It is passed the scope's final outcome, which it cannot replace, and its errors can't be
+ * included in the outcome, so they are handled like rejections in a sync scope.
+ *
+ * @throws the error thrown by `fn`, if it is a panic or not handled by any `onDeferError` hook
+ */
+export function executeLateDefer<T>(
+  fn: DeferEntry<T>,
+  outcome: Result<T>,
+  options: DeferStackOptions | undefined,
+  api: ErrorHookApi
+) {
+  executeDefer(fn, { outcome, async: false }, undefined, options, api);
+}
+
+/**
+ * Executes and awaits every deferred callback in `queue` in turn.
+ *
+ * @returns `outcome`, as replaced by any deferred callbacks, or a {@link DeferError} if any failed
+ */
+export async function executeDefersAsync<T>(
+  queue: DeferEntry<T>[],
+  outcome: Result<T>,
+  options: DeferStackOptions | undefined,
+  api: ErrorHookApi
+): Promise<Result<T>> {
+  const state = { outcome, async: true };
+  const errors: Error[] = [];
+  for (let fn = nextDefer(queue, options); fn; fn = nextDefer(queue, options)) {
+    try {
+      await fn(state);
+    } catch (e: unknown) {
+      reportDeferError(e, errors, options, api, true);
+    }
+  }
+  return withDeferErrors(state.outcome, errors);
+}
+
+/**
+ * A standalone stack of deferred callbacks, executed when the stack is disposed.
+ *
+ * Implements `Disposable` and `AsyncDisposable`, so it can be used with `using` and
+ * `await using` declarations. If any deferred callback fails, disposal throws a
+ * {@link DeferError}, unless handled by `options.onDeferError`.
+ *
+ * A `DeferStack` has no outcome of its own, so deferred callbacks are passed `{ val: undefined }`.
+ *
+ * @example
+ * ```typescript
+ * async function handleRequest() {
+ *   await using stack = new DeferStack({ order: "lifo" });
+ *   const conn = stack.use(await db.connect());
+ *   stack.defer(() => logger.info("Request finished"));
+ *   return conn.query("SELECT * FROM users");
+ * }
+ * ```
+ */
+export class DeferStack implements Disposable, AsyncDisposable {
+  private readonly queue: DeferEntry[] = [];
+  private readonly options: DeferStackOptions | undefined;
+
+  /**
+   * Registers a callback for execution when the stack is disposed. Has the same signature as
+   * the `defer` function passed to scopes, so it can be handed to code expecting one.
+   */
+  readonly defer: Defer = createDefer((entry) => this.queue.push(entry));
+
+  constructor(options?: DeferStackOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Registers a `Disposable` or `AsyncDisposable` resource for disposal when the stack is disposed.
+   *
+   * @returns `resource`, unchanged
+   */
+  use<R extends DisposableResource>(resource: R): R {
+    return this.defer.use(resource);
+  }
+
+  /**
+   * Executes the deferred callbacks without awaiting any returned Promises.
+   *
+   * @throws DeferError if any deferred callback throws
+   */
+  [Symbol.dispose](): void {
+    const outcome = executeDefers(
+      this.queue,
+      { val: undefined },
+      this.options,
+      "DeferStack"
+    );
+    if (outcome.err) {
+      throw outcome.err;
+    }
+  }
+
+  /**
+   * Executes and awaits each deferred callback in turn.
+   *
+   * @throws DeferError if any deferred callback throws or rejects
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    const outcome = await executeDefersAsync(
+      this.queue,
+      { val: undefined },
+      this.options,
+      "DeferStack"
+    );
+    if (outcome.err) {
+      throw outcome.err;
+    }
+  }
+}
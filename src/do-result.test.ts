@@ -0,0 +1,92 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { doResult, unwrapOrReturn } from "./do-result";
+import type { Result } from "./types";
+
+class ParseError extends Error {
+  readonly kind = "parse";
+}
+
+const ok = <T>(val: T): Result<T, string> => ({ val });
+const fail = <T = never>(err: string): Result<T, string> => ({ err });
+
+describe(doResult, () => {
+  it("should return the generator's return value", () => {
+    const res = doResult(function* () {
+      const a = yield* unwrapOrReturn(ok(1));
+      const b = yield* unwrapOrReturn(ok(2));
+      return a + b;
+    });
+    expect(res).toEqual({ val: 3 });
+  });
+
+  it("should short-circuit on the first error", () => {
+    const after = vi.fn();
+    const res = doResult(function* () {
+      yield* unwrapOrReturn(ok(1));
+      yield* unwrapOrReturn(fail("first"));
+      after();
+      yield* unwrapOrReturn(fail("second"));
+    });
+    expect(res).toEqual({ err: "first" });
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it("should run finally blocks when stopped early", () => {
+    const cleanup = vi.fn();
+    doResult(function* () {
+      try {
+        yield* unwrapOrReturn(fail("bad"));
+      } finally {
+        cleanup();
+      }
+    });
+    expect(cleanup).toHaveBeenCalledOnce();
+  });
+
+  it("should not catch thrown errors", () => {
+    const error = new Error();
+    expect(() =>
+      // eslint-disable-next-line require-yield
+      doResult(function* () {
+        throw error;
+      })
+    ).toThrow(error);
+  });
+
+  it("should support async generators", async () => {
+    const res = await doResult(async function* () {
+      const a = yield* unwrapOrReturn(await Promise.resolve(ok(1)));
+      return a + 1;
+    });
+    expect(res).toEqual({ val: 2 });
+
+    const cleanup = vi.fn();
+    const failed = await doResult(async function* () {
+      try {
+        yield* unwrapOrReturn(await Promise.resolve(fail("bad")));
+      } finally {
+        cleanup();
+      }
+    });
+    expect(failed).toEqual({ err: "bad" });
+    expect(cleanup).toHaveBeenCalledOnce();
+  });
+
+  it("should infer the union of unwrapped error types", async () => {
+    const parse = (): Result<number, ParseError> => ({ val: 1 });
+    const res = doResult(function* () {
+      const a = yield* unwrapOrReturn(ok("a"));
+      const b = yield* unwrapOrReturn(parse());
+      return { a, b };
+    });
+    expectTypeOf(res).toEqualTypeOf<
+      Result<{ a: string; b: number }, string | ParseError>
+    >();
+
+    const asyncRes = doResult(async function* () {
+      return yield* unwrapOrReturn(parse());
+    });
+    expectTypeOf(asyncRes).toEqualTypeOf<Promise<Result<number, ParseError>>>();
+    await asyncRes;
+  });
+});
@@ -0,0 +1,100 @@
+import type { Result } from "./types";
+
+type ErrYield<E> = { err: E };
+
+type YieldedErr<Y> = Y extends ErrYield<infer E> ? E : never;
+
+/**
+ * Unwrap a `Result` inside a {@link doResult} generator with `yield*`, similar to Rust's `?` operator.
+ *
+ * Evaluates to the value if `res` succeeded. Otherwise, the generator stops and `doResult`
+ * returns the error.
+ *
+ * @param res - result to unwrap
+ *
+ * @example
+ * ```typescript
+ * const res = doResult(function* () {
+ *   const user = yield* unwrapOrReturn(getUser(id));
+ *   return user.name;
+ * });
+ * ```
+ */
+export function* unwrapOrReturn<T, E>(
+  res: Result<T, E>
+): Generator<ErrYield<E>, T, unknown> {
+  if (res.err !== undefined) {
+    // `doResult` never resumes the generator after an error is yielded
+    return (yield { err: res.err }) as T;
+  }
+  return res.val as T;
+}
+
+/**
+ * Run a generator that unwraps results with `yield* unwrapOrReturn(res)`, short-circuiting
+ * on the first error.
+ *
+ * Returns a `Result` containing either the generator's return value, or the first error
+ * unwrapped. The error type is inferred as the union of every unwrapped error type.
+ *
+ * Supports both sync and async generators. When the generator is stopped early, its
+ * `finally` blocks still run. Values thrown inside the generator are not caught.
+ *
+ * @param fn - generator function to run
+ *
+ * @example
+ *
+ * ## Sync usage
+ *
+ * ```typescript
+ * const res = doResult(function* () {
+ *   const config = yield* unwrapOrReturn(parseConfig(text)); // Result<Config, ParseError>
+ *   const port = yield* unwrapOrReturn(validatePort(config)); // Result<number, RangeError>
+ *   return { ...config, port };
+ * });
+ * // res: Result<Config, ParseError | RangeError>
+ * ```
+ *
+ * ## Async usage
+ *
+ * ```typescript
+ * const res = await doResult(async function* () {
+ *   const user = yield* unwrapOrReturn(await safeTry(() => fetchUser(id)));
+ *   const posts = yield* unwrapOrReturn(await safeTry(() => fetchPosts(user)));
+ *   return posts;
+ * });
+ * ```
+ */
+export function doResult<Y extends ErrYield<unknown>, T>(
+  fn: () => Generator<Y, T, unknown>
+): Result<T, YieldedErr<Y>>;
+export function doResult<Y extends ErrYield<unknown>, T>(
+  fn: () => AsyncGenerator<Y, T, unknown>
+): Promise<Result<T, YieldedErr<Y>>>;
+export function doResult<T>(
+  fn: () =>
+    | Generator<ErrYield<unknown>, T, unknown>
+    | AsyncGenerator<ErrYield<unknown>, T, unknown>
+): Result<T, unknown> | Promise<Result<T, unknown>> {
+  const gen = fn();
+  if (Symbol.asyncIterator in gen) {
+    return runAsync(gen);
+  }
+  const step = gen.next();
+  if (!step.done) {
+    gen.return(undefined as T);
+    return { err: step.value.err };
+  }
+  return { val: step.value };
+}
+
+async function runAsync<T>(
+  gen: AsyncGenerator<ErrYield<unknown>, T, unknown>
+): Promise<Result<T, unknown>> {
+  const step = await gen.next();
+  if (!step.done) {
+    await gen.return(undefined as T);
+    return { err: step.value.err };
+  }
+  return { val: step.value };
+}
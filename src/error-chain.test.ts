@@ -0,0 +1,145 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { asError, errorChain, formatErrorChain, isError } from "./error-chain";
+
+function chainOf(...messages: string[]): Error {
+  return messages.reduceRight<Error | undefined>(
+    (cause, msg) => new Error(msg, { cause }),
+    undefined
+  ) as Error;
+}
+
+function cyclicChain(): Error {
+  const inner = new Error("inner");
+  const outer = new Error("outer", { cause: inner });
+  Object.defineProperty(inner, "cause", { value: outer });
+  return outer;
+}
+
+describe(errorChain, () => {
+  it("should return the error and each of its causes", () => {
+    const err = chainOf("ctx1", "ctx2", "root");
+    expect(errorChain(err)).toEqual([err, err.cause, (err.cause as Error).cause]);
+  });
+
+  it("should return just the error if it has no cause", () => {
+    const err = new Error();
+    expect(errorChain(err)).toEqual([err]);
+  });
+
+  it("should stop at causes that are not errors", () => {
+    const err = new Error("wrapper", { cause: "not an error" });
+    expect(errorChain(err)).toEqual([err]);
+  });
+
+  it("should stop at cycles", () => {
+    const err = cyclicChain();
+    expect(errorChain(err)).toEqual([err, err.cause]);
+  });
+
+  it("should stop at the maximum depth", () => {
+    const err = chainOf(...Array.from({ length: 200 }, (_, i) => `${i}`));
+    expect(errorChain(err)).toHaveLength(100);
+    expect(errorChain(err, { maxDepth: 3 })).toHaveLength(3);
+  });
+});
+
+describe(formatErrorChain, () => {
+  it("should join each message Go-style", () => {
+    const err = chainOf("ctx1", "ctx2", "root cause");
+    expect(formatErrorChain(err)).toEqual("ctx1: ctx2: root cause");
+  });
+
+  it("should skip empty messages", () => {
+    const err = chainOf("ctx1", "", "root cause");
+    expect(formatErrorChain(err)).toEqual("ctx1: root cause");
+  });
+
+  it("should respect the maximum depth", () => {
+    const err = chainOf("ctx1", "ctx2", "root cause");
+    expect(formatErrorChain(err, { maxDepth: 2 })).toEqual("ctx1: ctx2");
+  });
+
+  it("should terminate on cycles", () => {
+    expect(formatErrorChain(cyclicChain())).toEqual("outer: inner");
+  });
+
+  it("should include each stack when requested", () => {
+    const err = chainOf("ctx1", "root cause");
+    const formatted = formatErrorChain(err, { stack: true });
+    expect(formatted).toEqual(
+      `${err.stack}\nCaused by: ${(err.cause as Error).stack}`
+    );
+  });
+
+  it("should fall back to the name and message without a stack", () => {
+    const err = new TypeError("no stack");
+    err.stack = undefined;
+    expect(formatErrorChain(err, { stack: true })).toEqual("TypeError: no stack");
+  });
+});
+
+class NotFoundError extends Error {
+  status = 404;
+}
+
+describe(isError, () => {
+  it("should match the error itself", () => {
+    const err = new NotFoundError();
+    expect(isError(err, NotFoundError)).toBe(true);
+    expect(isError(err, err)).toBe(true);
+  });
+
+  it("should match errors in the cause chain", () => {
+    const root = new NotFoundError();
+    const err = new Error("outer", { cause: new Error("middle", { cause: root }) });
+    expect(isError(err, NotFoundError)).toBe(true);
+    expect(isError(err, root)).toBe(true);
+  });
+
+  it("should match errors inside an AggregateError", () => {
+    const root = new NotFoundError();
+    const err = new Error("outer", {
+      cause: new AggregateError([new Error(), new Error("inner", { cause: root })]),
+    });
+    expect(isError(err, NotFoundError)).toBe(true);
+  });
+
+  it("should not match unrelated errors", () => {
+    const err = new Error("outer", { cause: new TypeError() });
+    expect(isError(err, NotFoundError)).toBe(false);
+    expect(isError(err, new TypeError())).toBe(false);
+  });
+
+  it("should not match non-error values", () => {
+    expect(isError("oops", Error)).toBe(false);
+    expect(isError(new Error("outer", { cause: "oops" }), TypeError)).toBe(false);
+  });
+
+  it("should terminate on cycles", () => {
+    expect(isError(cyclicChain(), NotFoundError)).toBe(false);
+  });
+});
+
+describe(asError, () => {
+  it("should return the first matching error", () => {
+    const first = new NotFoundError("first");
+    const second = new NotFoundError("second");
+    const err = new Error("outer", {
+      cause: new AggregateError([first, second]),
+    });
+    const res = asError(err, NotFoundError);
+    expectTypeOf(res).toEqualTypeOf<NotFoundError | undefined>();
+    expect(res).toBe(first);
+  });
+
+  it("should search the cause chain before AggregateError members", () => {
+    const cause = new NotFoundError("cause");
+    const err = new AggregateError([new NotFoundError("member")], "agg", { cause });
+    expect(asError(err, NotFoundError)).toBe(cause);
+  });
+
+  it("should return undefined if no error matches", () => {
+    expect(asError(new Error(), NotFoundError)).toBeUndefined();
+    expect(asError(undefined, NotFoundError)).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+import type { ErrorClass } from "./types";
+
+/**
+ * Options for walking an error's cause chain.
+ */
+export type ErrorChainOptions = {
+  /**
+   * Maximum number of errors to include in the chain. Defaults to `100`.
+   */
+  maxDepth?: number;
+};
+
+/**
+ * Options for formatting an error's cause chain.
+ */
+export type FormatErrorChainOptions = ErrorChainOptions & {
+  /**
+   * Format each error on its own lines, including its stack trace. Defaults to `false`.
+   */
+  stack?: boolean;
+};
+
+const DEFAULT_MAX_DEPTH = 100;
+
+/**
+ * Walk an error's `cause` chain, returning the error and each of its causes in order.
+ *
+ * The chain ends at the first cause that is not an `Error`, at a cycle, or at `options.maxDepth`.
+ *
+ * @param err - outermost error of the chain
+ * @param options - optional {@link ErrorChainOptions}
+ * @returns `err` followed by each of its causes, from outermost to root
+ *
+ * @example
+ * ```typescript
+ * const chain = errorChain(err);
+ * const rootCause = chain[chain.length - 1];
+ * ```
+ */
+export function errorChain(err: Error, options?: ErrorChainOptions): Error[] {
+  const maxDepth = options?.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const chain: Error[] = [];
+  const seen = new Set<unknown>();
+  for (
+    let e: unknown = err;
+    e instanceof Error && !seen.has(e) && chain.length < maxDepth;
+    e = e.cause
+  ) {
+    seen.add(e);
+    chain.push(e);
+  }
+  return chain;
+}
+
+/**
+ * Format an error and its `cause` chain as a single message.
+ *
+ * By default, produces a Go-style message joining each error's message with `": "`.
+ * With `options.stack`, produces a multi-line message with each error's stack trace.
+ *
+ * @param err - outermost error of the chain
+ * @param options - optional {@link FormatErrorChainOptions}
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   propagateError("Failed to start", () =>
+ *     propagateError("Failed to load config", () => readConfig())
+ *   );
+ * } catch (e) {
+ *   console.error(formatErrorChain(coerceError(e)));
+ *   // Failed to start: Failed to load config: ENOENT: no such file or directory
+ * }
+ * ```
+ */
+export function formatErrorChain(
+  err: Error,
+  options?: FormatErrorChainOptions
+): string {
+  const chain = errorChain(err, options);
+  if (options?.stack) {
+    return chain
+      .map((e) => e.stack ?? `${e.name}: ${e.message}`)
+      .join("\nCaused by: ");
+  }
+  return chain
+    .map((e) => e.message)
+    .filter((msg) => msg !== "")
+    .join(": ");
+}
+
+/**
+ * Depth-first walk of an error tree, following `cause` and `AggregateError.errors`.
+ */
+function* walkErrors(root: unknown): Generator<Error> {
+  const stack = [root];
+  const seen = new Set<unknown>();
+  while (stack.length > 0) {
+    const e = stack.pop();
+    if (!(e instanceof Error) || seen.has(e)) {
+      continue;
+    }
+    seen.add(e);
+    yield e;
+    if (e instanceof AggregateError) {
+      stack.push(...[...e.errors].reverse());
+    }
+    stack.push(e.cause);
+  }
+}
+
+/**
+ * Check whether an error, or any error it wraps, matches a target. Equivalent to Go's `errors.Is`.
+ *
+ * Searches the `cause` chain and the `errors` of any `AggregateError`.
+ *
+ * @param err - error to search, typically a caught value
+ * @param target - an error class to match with `instanceof`, or a specific error instance to match by identity
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   propagateError("Failed to load user", () => loadUser(id));
+ * } catch (e) {
+ *   if (isError(e, NotFoundError)) {
+ *     return null;
+ *   }
+ *   throw e;
+ * }
+ * ```
+ */
+export function isError(err: unknown, target: ErrorClass | Error): boolean {
+  for (const e of walkErrors(err)) {
+    if (target instanceof Error ? e === target : e instanceof target) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the first error, among an error and every error it wraps, that is an instance of a class.
+ * Equivalent to Go's `errors.As`.
+ *
+ * Searches the `cause` chain and the `errors` of any `AggregateError`.
+ *
+ * @param err - error to search, typically a caught value
+ * @param target - error class to match with `instanceof`
+ * @returns the first matching error, or `undefined` if none match
+ *
+ * @example
+ * ```typescript
+ * const httpErr = asError(res.err, HttpError);
+ * if (httpErr?.status === 404) {
+ *   return null;
+ * }
+ * ```
+ */
+export function asError<E extends Error>(
+  err: unknown,
+  target: ErrorClass<E>
+): E | undefined {
+  for (const e of walkErrors(err)) {
+    if (e instanceof target) {
+      return e;
+    }
+  }
+  return undefined;
+}
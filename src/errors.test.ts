@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  AbortError,
+  ContextError,
+  DeferError,
+  RetryError,
+  TimeoutError,
+} from "./errors";
+
+describe(DeferError, () => {
+  it("should be an AggregateError", () => {
+    const err = new DeferError(undefined, [new Error()]);
+    expect(err).toBeInstanceOf(AggregateError);
+    expect(err.name).toEqual("DeferError");
+  });
+
+  it("should list only the defer errors when the scope succeeded", () => {
+    const deferErrors = [new Error("a"), new Error("b")];
+    const err = new DeferError(undefined, deferErrors);
+    expect(err.errors).toEqual(deferErrors);
+    expect(err.scopeError).toBeUndefined();
+    expect(err.cause).toBeUndefined();
+    expect(err.message).toEqual("2 deferred callbacks failed");
+  });
+
+  it("should list the scope error before the defer errors", () => {
+    const scopeError = new Error("scope failed");
+    const deferError = new Error("defer failed");
+    const err = new DeferError(scopeError, [deferError]);
+    expect(err.errors).toEqual([scopeError, deferError]);
+    expect(err.scopeError).toBe(scopeError);
+    expect(err.deferErrors).toEqual([deferError]);
+    expect(err.cause).toBe(scopeError);
+    expect(err.message).toEqual("scope failed (1 deferred callback also failed)");
+  });
+});
+
+describe(ContextError, () => {
+  it("should separate the message from the context fields", () => {
+    const cause = new Error();
+    const err = new ContextError({ message: "failed", userId: 1 }, { cause });
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toEqual("ContextError");
+    expect(err.message).toEqual("failed");
+    expect(err.context).toEqual({ userId: 1 });
+    expect(err.cause).toBe(cause);
+  });
+
+  it("should merge the context of every ContextError in the cause chain", () => {
+    const root = new ContextError({ message: "root", requestId: "abc", op: "read" });
+    const middle = new Error("middle", { cause: root });
+    const outer = new ContextError(
+      { message: "outer", userId: 1, op: "load" },
+      { cause: middle }
+    );
+    expect(outer.mergeContext()).toEqual({
+      requestId: "abc",
+      userId: 1,
+      op: "load",
+    });
+  });
+
+  it("should stop merging at non-error causes", () => {
+    const err = new ContextError({ message: "outer", a: 1 }, { cause: { b: 2 } });
+    expect(err.mergeContext()).toEqual({ a: 1 });
+  });
+
+  it("should handle cyclic cause chains", () => {
+    const inner = new ContextError({ message: "inner", a: 1 });
+    const outer = new ContextError({ message: "outer", b: 2 }, { cause: inner });
+    Object.defineProperty(inner, "cause", { value: outer });
+    expect(outer.mergeContext()).toEqual({ a: 1, b: 2 });
+  });
+});
+
+describe(TimeoutError, () => {
+  it("should record the timeout", () => {
+    const err = new TimeoutError(50);
+    expect(err.name).toEqual("TimeoutError");
+    expect(err.timeoutMs).toEqual(50);
+    expect(err.message).toEqual("Timed out after 50ms");
+  });
+});
+
+describe(AbortError, () => {
+  it("should set the abort reason as the cause", () => {
+    const reason = new Error("cancelled");
+    const err = new AbortError(reason);
+    expect(err.name).toEqual("AbortError");
+    expect(err.message).toEqual("The operation was aborted");
+    expect(err.cause).toBe(reason);
+  });
+});
+
+describe(RetryError, () => {
+  it("should list every attempt error", () => {
+    const errors = [new Error("a"), new Error("b")];
+    const err = new RetryError(errors);
+    expect(err).toBeInstanceOf(AggregateError);
+    expect(err.name).toEqual("RetryError");
+    expect(err.errors).toEqual(errors);
+    expect(err.attempts).toEqual(2);
+    expect(err.lastError).toBe(errors[1]);
+    expect(err.cause).toBe(errors[1]);
+    expect(err.message).toEqual("Failed after 2 attempts: b");
+    expect(new RetryError([errors[0]]).message).toEqual("Failed after 1 attempt: a");
+  });
+});
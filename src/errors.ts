@@ -0,0 +1,157 @@
+import { errorChain } from "./error-chain";
+
+/**
+ * Error produced when one or more deferred callbacks in a `scope` throw or reject.
+ *
+ * `errors` lists the scope's own error (if it failed) followed by every deferred callback error.
+ *
+ * @example
+ * ```typescript
+ * const res = scope.safe((defer) => {
+ *   defer(() => {
+ *     throw new Error("cleanup failed");
+ *   });
+ *   throw new Error("work failed");
+ * });
+ * if (res.err instanceof DeferError) {
+ *   console.error(res.err.scopeError); // Error: work failed
+ *   console.error(res.err.deferErrors); // [Error: cleanup failed]
+ * }
+ * ```
+ */
+export class DeferError extends AggregateError {
+  override name = "DeferError";
+  /** Error thrown by the scoped function, if it failed. */
+  readonly scopeError: Error | undefined;
+  /** Errors thrown by deferred callbacks, in execution order. */
+  readonly deferErrors: Error[];
+
+  constructor(scopeError: Error | undefined, deferErrors: Error[]) {
+    const errors = scopeError ? [scopeError, ...deferErrors] : deferErrors;
+    const count =
+      deferErrors.length === 1
+        ? "1 deferred callback"
+        : `${deferErrors.length} deferred callbacks`;
+    const message = scopeError
+      ? `${scopeError.message} (${count} also failed)`
+      : `${count} failed`;
+    super(errors, message, { cause: scopeError });
+    this.scopeError = scopeError;
+    this.deferErrors = deferErrors;
+  }
+}
+
+/**
+ * Structured error context: a message plus arbitrary key/value fields.
+ */
+export type ErrorContext = {
+  message: string;
+  [field: string]: unknown;
+};
+
+/**
+ * Error carrying structured key/value context, produced by `propagateError` when passed an {@link ErrorContext}.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   propagateError({ message: "Failed to load user", userId }, () => loadUser(userId));
+ * } catch (e) {
+ *   if (e instanceof ContextError) {
+ *     logger.error(e.message, e.mergeContext());
+ *   }
+ * }
+ * ```
+ */
+export class ContextError extends Error {
+  override name = "ContextError";
+  /** Fields of this error's context, excluding the message. */
+  readonly context: Record<string, unknown>;
+
+  constructor(context: ErrorContext, options?: ErrorOptions) {
+    const { message, ...fields } = context;
+    super(message, options);
+    this.context = fields;
+  }
+
+  /**
+   * Merge the context fields of this error and every `ContextError` in its cause chain.
+   *
+   * Fields from outer errors take precedence over fields from the errors they wrap.
+   */
+  mergeContext(): Record<string, unknown> {
+    const contexts = errorChain(this)
+      .filter((e) => e instanceof ContextError)
+      .map((e) => e.context)
+      .reverse();
+    return Object.assign({}, ...contexts);
+  }
+}
+
+/**
+ * Error produced when an async `safeTry` or `scope` exceeds its `timeoutMs`.
+ */
+export class TimeoutError extends Error {
+  override name = "TimeoutError";
+  /** Timeout that was exceeded, in milliseconds. */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error produced when an async `safeTry` or `scope` is cancelled by its `signal`.
+ *
+ * The signal's `reason` is set as the cause.
+ */
+export class AbortError extends Error {
+  override name = "AbortError";
+
+  constructor(reason?: unknown) {
+    super("The operation was aborted", { cause: reason });
+  }
+}
+
+/**
+ * Error produced when every attempt made by `retry` fails.
+ *
+ * `errors` lists the error from each attempt, in order.
+ *
+ * @example
+ * ```typescript
+ * const res = await retry(() => fetch("/api/users"), { attempts: 3 });
+ * if (res.err) {
+ *   console.error(res.err.attempts); // 3
+ *   console.error(res.err.lastError);
+ * }
+ * ```
+ */
+export class RetryError extends AggregateError {
+  override name = "RetryError";
+  /** Number of attempts made. */
+  readonly attempts: number;
+  /** Error from the final attempt. */
+  readonly lastError: Error;
+
+  constructor(errors: Error[]) {
+    const lastError = errors[errors.length - 1];
+    const count = errors.length === 1 ? "1 attempt" : `${errors.length} attempts`;
+    super(errors, `Failed after ${count}: ${lastError.message}`, {
+      cause: lastError,
+    });
+    this.attempts = errors.length;
+    this.lastError = lastError;
+  }
+}
+
+/**
+ * Error thrown by `panic` to signal a bug or unrecoverable state, rather than an expected failure.
+ *
+ * Panics are re-thrown by `safeTry` and `scope`, and can only be caught with `recover`.
+ */
+export class PanicError extends Error {
+  override name = "PanicError";
+}
@@ -0,0 +1,276 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { coerceError } from "./coerce-error";
+import { DeferStack } from "./defer-stack";
+import { DeferError, PanicError } from "./errors";
+import { onCoerce, onDeferError, onError, type ErrorHook } from "./hooks";
+import { panic } from "./panic";
+import { propagateError } from "./propagate-error";
+import { safeTry } from "./safe-try";
+import scope from "./scope";
+
+describe("hooks", () => {
+  const unregisters: (() => void)[] = [];
+
+  function register(add: typeof onError) {
+    const hook = vi.fn<ErrorHook>();
+    unregisters.push(add(hook));
+    return hook;
+  }
+
+  afterEach(() => {
+    unregisters.splice(0).forEach((unregister) => unregister());
+    vi.restoreAllMocks();
+  });
+
+  describe(onError, () => {
+    it("should report errors caught by safeTry", async () => {
+      const hook = register(onError);
+      const error = new Error("sync");
+      safeTry(() => {
+        throw error;
+      });
+      expect(hook).toHaveBeenCalledWith(error, { api: "safeTry", async: false });
+
+      const rejection = new Error("async");
+      await safeTry(() => Promise.reject(rejection));
+      expect(hook).toHaveBeenLastCalledWith(rejection, {
+        api: "safeTry",
+        async: true,
+      });
+    });
+
+    it("should report errors before safeTry re-throws or maps them", () => {
+      const hook = register(onError);
+      expect(() => safeTry(() => panic("bug"))).toThrow(PanicError);
+      expect(() =>
+        safeTry(
+          () => {
+            throw new Error("other");
+          },
+          { catch: [TypeError] }
+        )
+      ).toThrow("other");
+      safeTry(
+        () => {
+          throw "mapped";
+        },
+        { mapErr: String }
+      );
+      expect(hook.mock.calls.map(([err]) => err.message)).toEqual([
+        "bug",
+        "other",
+        "mapped",
+      ]);
+    });
+
+    it("should report errors caught by propagateError with its context", async () => {
+      const hook = register(onError);
+      const error = new Error("failed");
+      expect(() =>
+        propagateError("Failed to load user", () => {
+          throw error;
+        })
+      ).toThrow("Failed to load user");
+      expect(hook).toHaveBeenCalledWith(error, {
+        api: "propagateError",
+        async: false,
+        context: "Failed to load user",
+      });
+
+      await expect(
+        propagateError({ message: "Failed to save user", userId: 1 }, () =>
+          Promise.reject(error)
+        )
+      ).rejects.toThrow("Failed to save user");
+      expect(hook).toHaveBeenLastCalledWith(error, {
+        api: "propagateError",
+        async: true,
+        context: "Failed to save user",
+      });
+    });
+
+    it("should report the final error of each scope variation", async () => {
+      const hook = register(onError);
+      const error = new Error("failed");
+      const fail = () => {
+        throw error;
+      };
+      scope.safe(fail);
+      expect(() => scope.throwing(fail)).toThrow(error);
+      scope.handled(() => {}, fail);
+      await scope.safe(() => Promise.reject(error));
+      expect(hook.mock.calls).toEqual([
+        [error, { api: "scope.safe", async: false }],
+        [error, { api: "scope.throwing", async: false }],
+        [error, { api: "scope.handled", async: false }],
+        [error, { api: "scope.safe", async: true }],
+      ]);
+    });
+
+    it("should report DeferErrors and panics from scopes", () => {
+      const hook = register(onError);
+      scope.safe((defer) => {
+        defer(() => {
+          throw new Error("cleanup failed");
+        });
+      });
+      expect(() => scope.safe(() => panic("bug"))).toThrow(PanicError);
+      expect(hook.mock.calls[0][0]).toBeInstanceOf(DeferError);
+      expect(hook.mock.calls[1][0]).toBeInstanceOf(PanicError);
+    });
+
+    it("should not report successful calls", async () => {
+      const hook = register(onError);
+      safeTry(() => 1);
+      await safeTry(async () => 1);
+      propagateError("context", () => 1);
+      scope.safe(() => 1);
+      expect(hook).not.toHaveBeenCalled();
+    });
+
+    it("should stop calling unregistered hooks", () => {
+      const hook = vi.fn();
+      const unregister = onError(hook);
+      unregister();
+      unregister();
+      safeTry(() => {
+        throw new Error();
+      });
+      expect(hook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe(onCoerce, () => {
+    it("should report values converted by coerceError", () => {
+      const hook = register(onCoerce);
+      const err = coerceError("oops");
+      expect(hook).toHaveBeenCalledWith(err, { api: "coerceError", async: false });
+      expect(err.cause).toBe("oops");
+    });
+
+    it("should not report errors", () => {
+      const hook = register(onCoerce);
+      coerceError(new Error());
+      expect(hook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe(onDeferError, () => {
+    it("should report errors thrown by deferred callbacks in scopes", async () => {
+      const hook = register(onDeferError);
+      const error = new Error("cleanup failed");
+      scope.safe((defer) => {
+        defer(() => {
+          throw error;
+        });
+      });
+      await scope
+        .throwing(async (defer) => {
+          defer(() => Promise.reject(error));
+        })
+        .catch(() => {});
+      expect(hook.mock.calls).toEqual([
+        [error, { api: "scope.safe", async: false }],
+        [error, { api: "scope.throwing", async: true }],
+      ]);
+    });
+
+    it("should report rejections of deferred Promises in sync scopes", async () => {
+      const hook = register(onDeferError);
+      const error = new Error("cleanup failed");
+      scope.handled(
+        () => {},
+        (defer) => {
+          defer(() => Promise.reject(error));
+        }
+      );
+      await vi.waitFor(() => expect(hook).toHaveBeenCalled());
+      expect(hook).toHaveBeenCalledWith(error, {
+        api: "scope.handled",
+        async: true,
+      });
+    });
+
+    it("should report errors thrown by DeferStack callbacks", async () => {
+      const hook = register(onDeferError);
+      const error = new Error("cleanup failed");
+      const stack = new DeferStack();
+      stack.defer(() => {
+        throw error;
+      });
+      expect(() => stack[Symbol.dispose]()).toThrow(DeferError);
+      stack.defer(() => Promise.reject(error));
+      await expect(stack[Symbol.asyncDispose]()).rejects.toThrow(DeferError);
+      expect(hook.mock.calls).toEqual([
+        [error, { api: "DeferStack", async: false }],
+        [error, { api: "DeferStack", async: true }],
+      ]);
+    });
+
+    it("should report errors handled by the onDeferError option", () => {
+      const hook = register(onDeferError);
+      const error = new Error("cleanup failed");
+      const res = scope.safe(
+        (defer) => {
+          defer(() => {
+            throw error;
+          });
+        },
+        { onDeferError: () => {} }
+      );
+      expect(res).toEqual({ val: undefined });
+      expect(hook).toHaveBeenCalledWith(error, { api: "scope.safe", async: false });
+    });
+  });
+
+  describe("isolation", () => {
+    it("should re-throw errors thrown by hooks without affecting the caller", () => {
+      const tasks: (() => void)[] = [];
+      vi.spyOn(globalThis, "queueMicrotask").mockImplementation((task) => {
+        tasks.push(task);
+      });
+      const hookError = new Error("hook failed");
+      unregisters.push(
+        onError(() => {
+          throw hookError;
+        })
+      );
+      const next = register(onError);
+      const res = safeTry(() => {
+        throw new Error("failed");
+      });
+      expect(res.err?.message).toBe("failed");
+      expect(next).toHaveBeenCalled();
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0]).toThrow(hookError);
+    });
+
+    it("should not report errors caught inside hooks", () => {
+      const inner = vi.fn();
+      unregisters.push(
+        onError((err) => {
+          inner(err);
+          safeTry(() => {
+            throw new Error("inside hook");
+          });
+        })
+      );
+      safeTry(() => {
+        throw new Error("outside hook");
+      });
+      expect(inner).toHaveBeenCalledOnce();
+    });
+
+    it("should let hooks unregister themselves", () => {
+      const later = register(onError);
+      const unregister = onError(() => unregister());
+      safeTry(() => {
+        throw new Error();
+      });
+      safeTry(() => {
+        throw new Error();
+      });
+      expect(later).toHaveBeenCalledTimes(2);
+    });
+  });
+});
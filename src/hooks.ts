@@ -0,0 +1,166 @@
+/**
+ * Name of the errgo-ts API that observed an error.
+ */
+export type ErrorHookApi =
+  | "coerceError"
+  | "propagateError"
+  | "safeTry"
+  | "scope.safe"
+  | "scope.throwing"
+  | "scope.handled"
+  | "DeferStack";
+
+/**
+ * Call-site metadata passed to error hooks.
+ */
+export type ErrorHookInfo = {
+  /** API that observed the error. */
+  api: ErrorHookApi;
+  /** Whether the error was observed after the call returned a Promise. */
+  async: boolean;
+  /** Message passed to `propagateError`, if the error was observed by it. */
+  context?: string;
+};
+
+/**
+ * Observes an error flowing through errgo-ts. Errors thrown by hooks are re-thrown in a microtask,
+ * so they reach the runtime's uncaught error handler without affecting the caller.
+ */
+export type ErrorHook = (err: Error, info: ErrorHookInfo) => void;
+
+const errorHooks: ErrorHook[] = [];
+const coerceHooks: ErrorHook[] = [];
+const deferErrorHooks: ErrorHook[] = [];
+
+// Set while hooks run, so errors caught by errgo-ts inside a hook are not reported recursively
+let emitting = false;
+
+function addHook(hooks: ErrorHook[], hook: ErrorHook): () => void {
+  hooks.push(hook);
+  return () => {
+    const i = hooks.indexOf(hook);
+    if (i !== -1) {
+      hooks.splice(i, 1);
+    }
+  };
+}
+
+function emit(
+  hooks: ErrorHook[],
+  err: Error,
+  api: ErrorHookApi,
+  isAsync: boolean,
+  context: string | undefined
+): boolean {
+  if (hooks.length === 0 || emitting) {
+    return false;
+  }
+  const info: ErrorHookInfo =
+    context === undefined
+      ? { api, async: isAsync }
+      : { api, async: isAsync, context };
+  emitting = true;
+  try {
+    // Copy so that hooks can unregister themselves
+    for (const hook of [...hooks]) {
+      try {
+        hook(err, info);
+      } catch (hookErr: unknown) {
+        queueMicrotask(() => {
+          throw hookErr;
+        });
+      }
+    }
+  } finally {
+    emitting = false;
+  }
+  return true;
+}
+
+/**
+ * Register a hook called with every error caught by `safeTry`, `propagateError` and `scope`.
+ *
+ * Errors are reported once per API that catches them, so an error passing through nested calls
+ * is reported by each of them. Errors re-thrown as panics or filtered out by `safeTry`'s `catch`
+ * option are reported too.
+ *
+ * @param hook - function called with the error and its call-site metadata
+ * @returns a function that unregisters the hook
+ *
+ * @example
+ * ```typescript
+ * onError((err, { api, async }) => {
+ *   metrics.increment("errors", { api, async, name: err.name });
+ * });
+ * ```
+ */
+export function onError(hook: ErrorHook): () => void {
+  return addHook(errorHooks, hook);
+}
+
+/**
+ * Register a hook called whenever `coerceError` converts a thrown value that is not an `Error`.
+ *
+ * The converted error is passed to the hook. Unless converted by a registered coercer, its
+ * `cause` is the original thrown value.
+ *
+ * @param hook - function called with the converted error and its call-site metadata
+ * @returns a function that unregisters the hook
+ *
+ * @example
+ * ```typescript
+ * onCoerce((err) => logger.warn("Non-Error value thrown:", err.cause));
+ * ```
+ */
+export function onCoerce(hook: ErrorHook): () => void {
+  return addHook(coerceHooks, hook);
+}
+
+/**
+ * Register a hook called with every error thrown by a deferred callback in a `scope` or `DeferStack`.
+ *
+ * Hooks are called whether or not the error is handled by the `onDeferError` option.
+ *
+ * @param hook - function called with the error and its call-site metadata
+ * @returns a function that unregisters the hook
+ *
+ * @example
+ * ```typescript
+ * onDeferError((err, { api }) => tracer.recordException(err, { api }));
+ * ```
+ */
+export function onDeferError(hook: ErrorHook): () => void {
+  return addHook(deferErrorHooks, hook);
+}
+
+/**
+ * Reports an error caught by an API to the {@link onError} hooks.
+ */
+export function emitError(
+  err: Error,
+  api: ErrorHookApi,
+  isAsync: boolean,
+  context?: string
+) {
+  emit(errorHooks, err, api, isAsync, context);
+}
+
+/**
+ * Reports an error converted by `coerceError` to the {@link onCoerce} hooks.
+ */
+export function emitCoerce(err: Error) {
+  emit(coerceHooks, err, "coerceError", false, undefined);
+}
+
+/**
+ * Reports an error thrown by a deferred callback to the {@link onDeferError} hooks.
+ *
+ * @returns whether any hook was called
+ */
+export function emitDeferError(
+  err: Error,
+  api: ErrorHookApi,
+  isAsync: boolean
+): boolean {
+  return emit(deferErrorHooks, err, api, isAsync, undefined);
+}
@@ -1,7 +1,63 @@
 import { describe, expect, it } from "vitest";
-import { coerceError, propagateError, Result, safeTry, scope } from "./index";
+import {
+  AbortError,
+  asError,
+  assertResult,
+  coerceError,
+  ContextError,
+  currentDefer,
+  DeferError,
+  DeferStack,
+  deserializeError,
+  deserializeResult,
+  doResult,
+  errorChain,
+  formatErrorChain,
+  isErr,
+  isError,
+  isOk,
+  isPanic,
+  isProgrammingError,
+  isResult,
+  onCoerce,
+  onDeferError,
+  onError,
+  Option,
+  panic,
+  PanicError,
+  propagateError,
+  recover,
+  registerCoercer,
+  registerErrorClass,
+  Result,
+  retry,
+  RetryError,
+  safeAll,
+  safeCallback,
+  safeFn,
+  safeOnce,
+  safeTry,
+  scope,
+  serializeError,
+  serializeResult,
+  setPanicPredicate,
+  setScopeStorage,
+  TimeoutError,
+  tryTuple,
+  unwrapOrReturn,
+  type ResultTuple,
+} from "./index";
 
 describe("errgo-ts exports", () => {
+  it("should export panic utilities", () => {
+    expect(panic).toBeDefined();
+    expect(PanicError).toBeDefined();
+    expect(isPanic).toBeDefined();
+    expect(isProgrammingError).toBeDefined();
+    expect(setPanicPredicate).toBeDefined();
+    expect(recover).toBeDefined();
+  });
+
   it("should export propagateError", () => {
     expect(propagateError).toBeDefined();
   });
@@ -10,14 +66,136 @@ describe("errgo-ts exports", () => {
     expect(coerceError).toBeDefined();
   });
 
+  it("should export ContextError", () => {
+    expect(ContextError).toBeDefined();
+  });
+
+  it("should export DeferError", () => {
+    expect(DeferError).toBeDefined();
+  });
+
+  it("should export TimeoutError and AbortError", () => {
+    expect(TimeoutError).toBeDefined();
+    expect(AbortError).toBeDefined();
+  });
+
+  it("should export currentDefer and setScopeStorage", () => {
+    expect(currentDefer).toBeDefined();
+    expect(setScopeStorage).toBeDefined();
+  });
+
+  it("should export DeferStack", () => {
+    expect(DeferStack).toBeDefined();
+  });
+
+  it("should export doResult and unwrapOrReturn", () => {
+    expect(doResult).toBeDefined();
+    expect(unwrapOrReturn).toBeDefined();
+  });
+
+  it("should export errorChain", () => {
+    expect(errorChain).toBeDefined();
+  });
+
+  it("should export formatErrorChain", () => {
+    expect(formatErrorChain).toBeDefined();
+  });
+
+  it("should export isError", () => {
+    expect(isError).toBeDefined();
+  });
+
+  it("should export asError", () => {
+    expect(asError).toBeDefined();
+  });
+
+  it("should export serialization utilities", () => {
+    expect(serializeError).toBeDefined();
+    expect(deserializeError).toBeDefined();
+    expect(serializeResult).toBeDefined();
+    expect(deserializeResult).toBeDefined();
+    expect(registerErrorClass).toBeDefined();
+  });
+
+  it("should export error hooks", () => {
+    expect(onError).toBeDefined();
+    expect(onCoerce).toBeDefined();
+    expect(onDeferError).toBeDefined();
+  });
+
+  it("should export Option type and utilities", () => {
+    const _: Option<null> = { some: false };
+    expect(Option.fromNullable).toBeDefined();
+    expect(Option.map).toBeDefined();
+    expect(Option.andThen).toBeDefined();
+    expect(Option.unwrapOr).toBeDefined();
+    expect(Option.okOr).toBeDefined();
+    expect(Option.resultToOption).toBeDefined();
+  });
+
+  it("should export registerCoercer", () => {
+    expect(registerCoercer).toBeDefined();
+  });
+
+  it("should export retry and RetryError", () => {
+    expect(retry).toBeDefined();
+    expect(RetryError).toBeDefined();
+  });
+
+  it("should export safeFn and safeAll", () => {
+    expect(safeFn).toBeDefined();
+    expect(safeAll).toBeDefined();
+  });
+
+  it("should export safeCallback and safeOnce", () => {
+    expect(safeCallback).toBeDefined();
+    expect(safeOnce).toBeDefined();
+  });
+
   it("should export safeTry", () => {
     expect(safeTry).toBeDefined();
   });
 
+  it("should export Result type guards", () => {
+    expect(isResult).toBeDefined();
+    expect(isOk).toBeDefined();
+    expect(isErr).toBeDefined();
+    expect(assertResult).toBeDefined();
+  });
+
   it("should export Result type", () => {
     const _: Result<null> = { val: null };
   });
 
+  it("should export Result utilities", () => {
+    expect(Result.map).toBeDefined();
+    expect(Result.mapErr).toBeDefined();
+    expect(Result.andThen).toBeDefined();
+    expect(Result.orElse).toBeDefined();
+    expect(Result.unwrap).toBeDefined();
+    expect(Result.unwrapOr).toBeDefined();
+    expect(Result.unwrapOrElse).toBeDefined();
+    expect(Result.match).toBeDefined();
+    expect(Result.toTuple).toBeDefined();
+    expect(Result.fromTuple).toBeDefined();
+    expect(Result.all).toBeDefined();
+    expect(Result.collect).toBeDefined();
+    expect(Result.any).toBeDefined();
+    expect(Result.partition).toBeDefined();
+    expect(Result.allAsync).toBeDefined();
+    expect(Result.collectAsync).toBeDefined();
+    expect(Result.anyAsync).toBeDefined();
+    expect(Result.partitionAsync).toBeDefined();
+  });
+
+  it("should export tryTuple", () => {
+    expect(tryTuple).toBeDefined();
+  });
+
+  it("should export ResultTuple type", () => {
+    const _: ResultTuple<null> = [null, undefined];
+  });
+
   it("should export scope.safe", () => {
     expect(scope.safe).toBeDefined();
   });
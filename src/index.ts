@@ -1,9 +1,145 @@
-import { coerceError } from "./coerce-error";
+import type { CancellationOptions } from "./cancellation";
+import { coerceError, registerCoercer, type Coercer } from "./coerce-error";
+import { DeferStack, type Defer, type DeferStackOptions } from "./defer-stack";
+import { doResult, unwrapOrReturn } from "./do-result";
+import {
+  asError,
+  errorChain,
+  formatErrorChain,
+  isError,
+  type ErrorChainOptions,
+  type FormatErrorChainOptions,
+} from "./error-chain";
+import {
+  AbortError,
+  ContextError,
+  DeferError,
+  PanicError,
+  RetryError,
+  TimeoutError,
+  type ErrorContext,
+} from "./errors";
+import {
+  onCoerce,
+  onDeferError,
+  onError,
+  type ErrorHook,
+  type ErrorHookApi,
+  type ErrorHookInfo,
+} from "./hooks";
+import Option from "./option";
+import {
+  isPanic,
+  isProgrammingError,
+  panic,
+  recover,
+  setPanicPredicate,
+  type PanicPredicate,
+} from "./panic";
 import { propagateError } from "./propagate-error";
-import { safeTry } from "./safe-try";
-import scope from "./scope";
-import type { Result } from "./types";
+import Result from "./result";
+import {
+  assertResult,
+  isErr,
+  isOk,
+  isResult,
+  type ResultValidators,
+} from "./result-guards";
+import { retry, type Backoff, type RetryOptions } from "./retry";
+import { safeCallback, type NodeCallback } from "./safe-callback";
+import { safeAll, safeFn, type SafeAll, type SafeFn } from "./safe-fn";
+import { safeOnce, type EventEmitterLike, type EventTargetLike } from "./safe-once";
+import { safeTry, type SafeTryOptions } from "./safe-try";
+import scope, { type SafeScopeOptions, type ScopeOptions } from "./scope";
+import { currentDefer, setScopeStorage, type ScopeStorage } from "./scope-context";
+import {
+  deserializeError,
+  deserializeResult,
+  registerErrorClass,
+  serializeError,
+  serializeResult,
+  type SerializedError,
+  type SerializedErrorData,
+  type SerializedResult,
+} from "./serialize";
+import { tryTuple } from "./try-tuple";
+import type { ErrorClass, ResultTuple } from "./types";
 
-export { coerceError, propagateError, safeTry, scope };
+export {
+  AbortError,
+  asError,
+  assertResult,
+  coerceError,
+  ContextError,
+  currentDefer,
+  DeferError,
+  DeferStack,
+  deserializeError,
+  deserializeResult,
+  doResult,
+  errorChain,
+  formatErrorChain,
+  isErr,
+  isError,
+  isOk,
+  isPanic,
+  isProgrammingError,
+  isResult,
+  onCoerce,
+  onDeferError,
+  onError,
+  Option,
+  panic,
+  PanicError,
+  propagateError,
+  recover,
+  registerCoercer,
+  registerErrorClass,
+  Result,
+  retry,
+  RetryError,
+  safeAll,
+  safeCallback,
+  safeFn,
+  safeOnce,
+  safeTry,
+  scope,
+  serializeError,
+  serializeResult,
+  setPanicPredicate,
+  setScopeStorage,
+  TimeoutError,
+  tryTuple,
+  unwrapOrReturn,
+};
 
-export type { Result };
+export type {
+  Backoff,
+  CancellationOptions,
+  Coercer,
+  Defer,
+  DeferStackOptions,
+  ErrorChainOptions,
+  ErrorClass,
+  ErrorContext,
+  ErrorHook,
+  ErrorHookApi,
+  ErrorHookInfo,
+  EventEmitterLike,
+  EventTargetLike,
+  FormatErrorChainOptions,
+  NodeCallback,
+  PanicPredicate,
+  ResultTuple,
+  ResultValidators,
+  RetryOptions,
+  SafeAll,
+  SafeFn,
+  SafeScopeOptions,
+  SafeTryOptions,
+  ScopeOptions,
+  ScopeStorage,
+  SerializedError,
+  SerializedErrorData,
+  SerializedResult,
+};
@@ -0,0 +1,131 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import Option from "./option";
+import type { Result } from "./types";
+
+const some = <T>(val: T): Option<T> => ({ some: true, val });
+const none = <T = never>(): Option<T> => ({ some: false });
+
+describe("Option", () => {
+  describe(Option.fromNullable, () => {
+    it("should wrap present values", () => {
+      expect(Option.fromNullable(1)).toEqual({ some: true, val: 1 });
+      expect(Option.fromNullable(0)).toEqual({ some: true, val: 0 });
+      expect(Option.fromNullable("")).toEqual({ some: true, val: "" });
+      expect(Option.fromNullable(false)).toEqual({ some: true, val: false });
+    });
+
+    it("should return an empty option for null and undefined", () => {
+      expect(Option.fromNullable(null)).toEqual({ some: false });
+      expect(Option.fromNullable(undefined)).toEqual({ some: false });
+    });
+
+    it("should exclude null and undefined from the value type", () => {
+      const opt = Option.fromNullable(new Map<string, number>().get("a"));
+      expectTypeOf(opt).toEqualTypeOf<Option<number>>();
+    });
+  });
+
+  describe(Option.map, () => {
+    it("should transform the value", () => {
+      expect(Option.map(some(2), (v) => v * 2)).toEqual({ some: true, val: 4 });
+    });
+
+    it("should keep undefined values returned by fn", () => {
+      expect(Option.map(some(2), () => undefined)).toEqual({
+        some: true,
+        val: undefined,
+      });
+    });
+
+    it("should leave empty options untouched", () => {
+      const fn = vi.fn();
+      const opt = none();
+      expect(Option.map(opt, fn)).toBe(opt);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe(Option.andThen, () => {
+    it("should chain the next option", () => {
+      expect(Option.andThen(some(2), (v) => some(`${v}`))).toEqual({
+        some: true,
+        val: "2",
+      });
+      expect(Option.andThen(some(2), () => none())).toEqual({ some: false });
+    });
+
+    it("should leave empty options untouched", () => {
+      const fn = vi.fn();
+      const opt = none();
+      expect(Option.andThen(opt, fn)).toBe(opt);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should infer the chained value type", () => {
+      const opt = Option.andThen(some(2), (v) => Option.fromNullable(`${v}`));
+      expectTypeOf(opt).toEqualTypeOf<Option<string>>();
+    });
+  });
+
+  describe(Option.unwrapOr, () => {
+    it("should return the value", () => {
+      expect(Option.unwrapOr(some(1), 2)).toBe(1);
+      expect(Option.unwrapOr(some(undefined), 2)).toBeUndefined();
+    });
+
+    it("should return the fallback for empty options", () => {
+      expect(Option.unwrapOr(none(), 2)).toBe(2);
+    });
+
+    it("should type the fallback as part of the return value", () => {
+      expectTypeOf(Option.unwrapOr(some(1), "a")).toEqualTypeOf<number | string>();
+    });
+  });
+
+  describe(Option.okOr, () => {
+    it("should convert present values to a successful result", () => {
+      expect(Option.okOr(some(1), new Error("missing"))).toEqual({ val: 1 });
+    });
+
+    it("should convert empty options to the given error", () => {
+      const err = new Error("missing");
+      expect(Option.okOr(none(), err)).toEqual({ err });
+    });
+
+    it("should infer the result type", () => {
+      const res = Option.okOr(some(1), new TypeError("missing"));
+      expectTypeOf(res).toEqualTypeOf<Result<number, TypeError>>();
+    });
+  });
+
+  describe(Option.resultToOption, () => {
+    it("should convert successful results to present values", () => {
+      expect(Option.resultToOption({ val: 1 })).toEqual({ some: true, val: 1 });
+      expect(Option.resultToOption({ val: undefined })).toEqual({
+        some: true,
+        val: undefined,
+      });
+    });
+
+    it("should convert failed results to empty options", () => {
+      expect(Option.resultToOption({ err: new Error("bad") })).toEqual({
+        some: false,
+      });
+    });
+
+    it("should infer the value type", () => {
+      const res: Result<number> =
+        Math.random() > 1 ? { val: 1 } : { err: new Error() };
+      expectTypeOf(Option.resultToOption(res)).toEqualTypeOf<Option<number>>();
+    });
+  });
+
+  it("should narrow on the some property", () => {
+    const opt = Option.fromNullable<number>(1);
+    if (opt.some) {
+      expectTypeOf(opt.val).toEqualTypeOf<number>();
+    } else {
+      expectTypeOf(opt.val).toEqualTypeOf<undefined>();
+    }
+  });
+});
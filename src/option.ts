@@ -0,0 +1,117 @@
+import type { Option as OptionType, Result } from "./types";
+
+type Option<T> = OptionType<T>;
+
+/**
+ * Create an `Option` from a value that may be `null` or `undefined`.
+ *
+ * @param val - value to wrap
+ * @returns `{ some: false }` if `val` is `null` or `undefined`, otherwise `{ some: true, val }`
+ *
+ * @example
+ * ```typescript
+ * const user = Option.fromNullable(users.get(id)); // Option<User>
+ * ```
+ */
+export function fromNullable<T>(val: T | null | undefined): Option<T> {
+  return val === null || val === undefined ? { some: false } : { some: true, val };
+}
+
+/**
+ * Transform the value of an `Option`, leaving empty options untouched.
+ *
+ * @param opt - option to transform
+ * @param fn - function applied to `opt.val`
+ *
+ * @example
+ * ```typescript
+ * const name = Option.map(Option.fromNullable(users.get(id)), (user) => user.name);
+ * ```
+ */
+export function map<T, U>(opt: Option<T>, fn: (val: T) => U): Option<U> {
+  return opt.some ? { some: true, val: fn(opt.val) } : opt;
+}
+
+/**
+ * Chain another `Option`-returning operation on a present value, short-circuiting on empty options.
+ *
+ * @param opt - option to chain from
+ * @param fn - function applied to `opt.val`, returning the next `Option`
+ *
+ * @example
+ * ```typescript
+ * const manager = Option.andThen(Option.fromNullable(users.get(id)), (user) =>
+ *   Option.fromNullable(user.manager)
+ * );
+ * ```
+ */
+export function andThen<T, U>(opt: Option<T>, fn: (val: T) => Option<U>): Option<U> {
+  return opt.some ? fn(opt.val) : opt;
+}
+
+/**
+ * Extract the value of an `Option`, or return a fallback if it is empty.
+ *
+ * @param opt - option to unwrap
+ * @param fallback - value returned if `opt` is empty
+ *
+ * @example
+ * ```typescript
+ * const port = Option.unwrapOr(Option.fromNullable(env.PORT), "8080");
+ * ```
+ */
+export function unwrapOr<T, U>(opt: Option<T>, fallback: U): T | U {
+  return opt.some ? opt.val : fallback;
+}
+
+/**
+ * Convert an `Option` to a `Result`, using `err` if the option is empty.
+ *
+ * @param opt - option to convert
+ * @param err - error used if `opt` is empty
+ *
+ * @example
+ * ```typescript
+ * const res = Option.okOr(Option.fromNullable(users.get(id)), new NotFoundError(id));
+ * // res: Result<User, NotFoundError>
+ * ```
+ */
+export function okOr<T, E>(opt: Option<T>, err: E): Result<T, E> {
+  return opt.some ? { val: opt.val } : { err };
+}
+
+/**
+ * Convert a `Result` to an `Option`, discarding the error.
+ *
+ * @param res - result to convert
+ *
+ * @example
+ * ```typescript
+ * const config = Option.resultToOption(safeTry(() => readConfig()));
+ * ```
+ */
+export function resultToOption<T, E>(res: Result<T, E>): Option<T> {
+  return res.err !== undefined ? { some: false } : { some: true, val: res.val as T };
+}
+
+/**
+ * Utilities for operating on `Option` objects, representing a value or nothing.
+ *
+ * Available Functions:
+ * - `fromNullable` - create an option from a nullable value
+ * - `map` - transform the value
+ * - `andThen` - chain another optional operation
+ * - `unwrapOr` - extract the value or return a fallback
+ * - `okOr` - convert to a `Result`, using an error if empty
+ * - `resultToOption` - convert a `Result` to an option, discarding the error
+ */
+const Option = {
+  fromNullable,
+  map,
+  andThen,
+  unwrapOr,
+  okOr,
+  resultToOption,
+};
+
+export default Option;
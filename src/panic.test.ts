@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, expectTypeOf, it } from "vitest";
+import { DeferError, PanicError } from "./errors";
+import {
+  isPanic,
+  isProgrammingError,
+  panic,
+  recover,
+  setPanicPredicate,
+} from "./panic";
+import { safeTry } from "./safe-try";
+import scope from "./scope";
+import type { Result } from "./types";
+
+describe("panic", () => {
+  describe(panic, () => {
+    it("should throw a PanicError with the message", () => {
+      expect(() => panic("invariant violated")).toThrow(
+        new PanicError("invariant violated")
+      );
+    });
+
+    it("should set an error reason as the cause", () => {
+      const cause = new TypeError("bad");
+      const err = recover(() => panic(cause)).err;
+      expect(err).toBeInstanceOf(PanicError);
+      expect(err?.message).toBe("bad");
+      expect(err?.cause).toBe(cause);
+    });
+  });
+
+  describe(isPanic, () => {
+    afterEach(() => {
+      setPanicPredicate();
+    });
+
+    it("should only treat PanicErrors as panics by default", () => {
+      expect(isPanic(new PanicError("bug"))).toBe(true);
+      expect(isPanic(new TypeError("bug"))).toBe(false);
+      expect(isPanic("bug")).toBe(false);
+    });
+
+    it("should treat DeferErrors from panicking scopes or callbacks as panics", () => {
+      const panicking = [
+        new DeferError(new PanicError("bug"), [new Error()]),
+        new DeferError(new Error(), [new PanicError("bug")]),
+        new DeferError(undefined, [new PanicError("bug")]),
+      ];
+      expect(panicking.map(isPanic)).toEqual([true, true, true]);
+      expect(isPanic(new DeferError(new Error(), [new Error()]))).toBe(false);
+    });
+
+    it("should use the panic predicate", () => {
+      setPanicPredicate(isProgrammingError);
+      expect(isPanic(new TypeError())).toBe(true);
+      expect(isPanic(new ReferenceError())).toBe(true);
+      expect(isPanic(new RangeError())).toBe(true);
+      expect(isPanic(new SyntaxError())).toBe(false);
+      expect(isPanic(new Error())).toBe(false);
+      expect(isPanic(new PanicError("bug"))).toBe(true);
+    });
+  });
+
+  describe(setPanicPredicate, () => {
+    it("should return a function restoring the previous predicate", () => {
+      const restoreDefault = setPanicPredicate(isProgrammingError);
+      const restore = setPanicPredicate((e) => e === "bug");
+      expect(isPanic("bug")).toBe(true);
+      expect(isPanic(new TypeError())).toBe(false);
+      restore();
+      expect(isPanic("bug")).toBe(false);
+      expect(isPanic(new TypeError())).toBe(true);
+      restoreDefault();
+      expect(isPanic(new TypeError())).toBe(false);
+    });
+  });
+
+  describe(recover, () => {
+    it("should return val when the sync action succeeds", () => {
+      expect(recover(() => 1)).toEqual({ val: 1 });
+    });
+
+    it("should return val when the async action succeeds", async () => {
+      expect(await recover(async () => 1)).toEqual({ val: 1 });
+    });
+
+    it("should catch sync panics", () => {
+      const res = recover(() => safeTry(() => panic("bug")));
+      expect(res.err).toBeInstanceOf(PanicError);
+    });
+
+    it("should catch async panics", async () => {
+      const res = await recover(() =>
+        scope.safe(async () => {
+          await Promise.resolve();
+          panic("bug");
+        })
+      );
+      expect(res.err).toBeInstanceOf(PanicError);
+    });
+
+    it("should catch other errors", () => {
+      const error = new Error("failed");
+      expect(
+        recover(() => {
+          throw error;
+        })
+      ).toEqual({ err: error });
+    });
+
+    it("should coerce thrown values", async () => {
+      expect(
+        recover(() => {
+          throw "sync";
+        }).err?.message
+      ).toBe("sync");
+      expect((await recover(() => Promise.reject("async"))).err?.message).toBe(
+        "async"
+      );
+    });
+
+    it("should infer the result type", () => {
+      expectTypeOf(recover(() => 1)).toEqualTypeOf<Result<number>>();
+      expectTypeOf(recover(async () => 1)).toEqualTypeOf<Promise<Result<number>>>();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { coerceError } from "./coerce-error";
+import { DeferError, PanicError } from "./errors";
+import type { NotPromise, Result } from "./types";
+
+/**
+ * Decides whether a thrown value is a panic, in addition to {@link PanicError}s.
+ */
+export type PanicPredicate = (e: unknown) => boolean;
+
+let panicPredicate: PanicPredicate | undefined;
+
+/**
+ * Throw a {@link PanicError}, signalling a bug or unrecoverable state.
+ *
+ * Unlike other errors, panics are re-thrown by `safeTry`, `scope.safe` and the other safe APIs,
+ * after running any deferred actions. They can only be caught with {@link recover}, or a plain `try/catch`.
+ *
+ * @param reason - panic message, or an error to set as the cause
+ *
+ * @example
+ * ```typescript
+ * function getUser(id: string) {
+ *   const user = cache.get(id);
+ *   if (!user) {
+ *     panic(`User ${id} missing from cache`);
+ *   }
+ *   return user;
+ * }
+ * ```
+ */
+export function panic(reason: string | Error): never {
+  if (typeof reason === "string") {
+    throw new PanicError(reason);
+  }
+  throw new PanicError(reason.message, { cause: reason });
+}
+
+/**
+ * Panic predicate treating `TypeError`, `ReferenceError` and `RangeError` as panics, since
+ * they usually indicate programming bugs.
+ *
+ * Note that some APIs throw these for expected failures, e.g. `fetch` rejects with a `TypeError`
+ * on network errors.
+ *
+ * @example
+ * ```typescript
+ * setPanicPredicate(isProgrammingError);
+ *
+ * // Re-throws the TypeError if `user.profile` is undefined
+ * const res = safeTry(() => user.profile.name);
+ * ```
+ */
+export function isProgrammingError(e: unknown): boolean {
+  return (
+    e instanceof TypeError || e instanceof ReferenceError || e instanceof RangeError
+  );
+}
+
+/**
+ * Set a predicate classifying additional thrown values as panics.
+ *
+ * {@link PanicError}s are always panics. By default, no other errors are.
+ *
+ * @param predicate - predicate to use, or `undefined` to restore the default
+ * @returns a function that restores the previous predicate
+ *
+ * @example
+ * ```typescript
+ * setPanicPredicate(isProgrammingError);
+ * setPanicPredicate((e) => isProgrammingError(e) || e instanceof AssertionError);
+ * ```
+ */
+export function setPanicPredicate(predicate?: PanicPredicate): () => void {
+  const previous = panicPredicate;
+  panicPredicate = predicate;
+  return () => {
+    panicPredicate = previous;
+  };
+}
+
+/**
+ * Check whether a thrown value is a panic: a {@link PanicError}, a value matching the predicate
+ * set with {@link setPanicPredicate}, or a {@link DeferError} from a scope or deferred callback that panicked.
+ *
+ * @param e - thrown value to check
+ */
+export function isPanic(e: unknown): boolean {
+  if (e instanceof PanicError) {
+    return true;
+  }
+  if (e instanceof DeferError) {
+    return (
+      (e.scopeError !== undefined && isPanic(e.scopeError)) ||
+      e.deferErrors.some(isPanic)
+    );
+  }
+  return panicPredicate !== undefined && panicPredicate(e);
+}
+
+/**
+ * Execute a function, returning a `Result` containing any thrown error, including panics.
+ *
+ * Mirrors Go's `recover`: use it at the boundaries of your program, such as request handlers,
+ * to stop panics escaping `safeTry` and `scope` from crashing the process.
+ *
+ * *`recover` will ***never*** throw.*
+ *
+ * @param fn - function to execute
+ *
+ * @example
+ * ```typescript
+ * app.get("/users/:id", async (req, res) => {
+ *   const out = await recover(() => handleGetUser(req));
+ *   if (out.err) {
+ *     logger.error("Request failed:", out.err);
+ *     res.status(500).end();
+ *   }
+ * });
+ * ```
+ */
+export function recover<T>(fn: () => NotPromise<T>): Result<T>;
+export function recover<T>(fn: () => Promise<T>): Promise<Result<T>>;
+export function recover<T>(
+  fn: () => T | Promise<T>
+): Result<T> | Promise<Result<T>> {
+  try {
+    const result = fn();
+    if (result instanceof Promise) {
+      return result.then(
+        (v): Result<T> => ({ val: v }),
+        (e: unknown): Result<T> => ({ err: coerceError(e) })
+      );
+    }
+    return { val: result };
+  } catch (e: unknown) {
+    return { err: coerceError(e) };
+  }
+}
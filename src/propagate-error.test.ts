@@ -1,5 +1,8 @@
 import { describe, expect, test, vi } from "vitest";
+import { ContextError, PanicError } from "./errors";
+import { panic } from "./panic";
 import { propagateError } from "./propagate-error";
+import { safeTry } from "./safe-try";
 import { jsTypes } from "./test-helpers";
 
 describe(propagateError, () => {
@@ -98,4 +101,73 @@ describe(propagateError, () => {
       expect(thrownError?.cause).toBe(actionError);
     });
   });
+
+  describe("should wrap errors in a ContextError when passed a context object", () => {
+    test("when passed a sync action that throws", () => {
+      const actionError = new Error("something went wrong");
+      let thrownError: unknown;
+      try {
+        propagateError({ message: "Error doing thing", userId: 1 }, () => {
+          throw actionError;
+        });
+      } catch (error) {
+        thrownError = error;
+      }
+      expect(thrownError).toBeInstanceOf(ContextError);
+      expect((thrownError as ContextError).message).toEqual("Error doing thing");
+      expect((thrownError as ContextError).context).toEqual({ userId: 1 });
+      expect((thrownError as ContextError).cause).toBe(actionError);
+    });
+
+    test("when passed an async action that rejects", async () => {
+      const actionError = new Error("something went wrong");
+      let thrownError: unknown;
+      try {
+        await propagateError(
+          { message: "Error doing thing", requestId: "abc" },
+          () => Promise.reject(actionError)
+        );
+      } catch (error) {
+        thrownError = error;
+      }
+      expect(thrownError).toBeInstanceOf(ContextError);
+      expect((thrownError as ContextError).context).toEqual({ requestId: "abc" });
+      expect((thrownError as ContextError).cause).toBe(actionError);
+    });
+
+    test("when nested, merging the context of every level", () => {
+      let thrownError: unknown;
+      try {
+        propagateError({ message: "outer", userId: 1 }, () =>
+          propagateError("middle", () =>
+            propagateError({ message: "inner", operation: "read" }, () => {
+              throw new Error("root");
+            })
+          )
+        );
+      } catch (error) {
+        thrownError = error;
+      }
+      expect((thrownError as ContextError).mergeContext()).toEqual({
+        userId: 1,
+        operation: "read",
+      });
+    });
+  });
+
+  describe("should re-throw panics without wrapping them", () => {
+    test("when passed a sync action that panics", () => {
+      expect(() =>
+        safeTry(() => propagateError("Error doing thing", () => panic("bug")))
+      ).toThrow(PanicError);
+    });
+
+    test("when passed an async action that panics", async () => {
+      await expect(
+        safeTry(() =>
+          propagateError({ message: "Error doing thing" }, async () => panic("bug"))
+        )
+      ).rejects.toThrow(PanicError);
+    });
+  });
 });
@@ -1,14 +1,34 @@
 import { coerceError } from "./coerce-error";
+import { ContextError, type ErrorContext } from "./errors";
+import { emitError } from "./hooks";
+import { isPanic } from "./panic";
+
+function wrapError(
+  errorContext: string | ErrorContext,
+  e: unknown,
+  isAsync: boolean
+): Error {
+  const err = coerceError(e);
+  const message =
+    typeof errorContext === "string" ? errorContext : errorContext.message;
+  emitError(err, "propagateError", isAsync, message);
+  if (isPanic(e)) throw e;
+  if (typeof errorContext === "string") {
+    return new Error(errorContext, { cause: err });
+  }
+  return new ContextError(errorContext, { cause: err });
+}
 
 /**
  * Execute a function while catching and re-throwing any errors with the provided context message.
  *
  * Supports both sync and async functions.
  *
- * @param errorContext - message prefix for re-thrown errors
+ * @param errorContext - message for re-thrown errors, or an {@link ErrorContext} object with a message and structured fields
  * @param fn - function to execute
  * @returns the function's return value
- * @throws errors thrown by the function, wrapped in the provided context
+ * @throws errors thrown by the function, wrapped in the provided context. Panics are
+ * re-thrown as is, so `safeTry` and `scope` still recognize them (see {@link isPanic}).
  *
  * @example
  *
@@ -25,14 +45,24 @@ import { coerceError } from "./coerce-error";
  *   throw new Error("Failed to get data", { cause: e });
  * }
  * ```
+ *
+ * ## Structured context
+ *
+ * Passing an object produces a {@link ContextError} exposing the extra fields:
+ * ```typescript
+ * const user = propagateError({ message: "Failed to get user", userId }, () => getUser(userId));
+ * ```
  */
-export function propagateError<T>(errorContext: string, fn: () => T): T;
 export function propagateError<T>(
-  errorContext: string,
+  errorContext: string | ErrorContext,
+  fn: () => T
+): T;
+export function propagateError<T>(
+  errorContext: string | ErrorContext,
   fn: () => Promise<T>
 ): Promise<T>;
 export function propagateError<T>(
-  errorContext: string,
+  errorContext: string | ErrorContext,
   fn: () => T | Promise<T>
 ): T | Promise<T> {
   try {
@@ -41,15 +71,13 @@ export function propagateError<T>(
       return result.then(
         (val) => val,
         (e) => {
-          const err = coerceError(e);
-          throw new Error(errorContext, { cause: err });
+          throw wrapError(errorContext, e, true);
         }
       );
     } else {
       return result;
     }
   } catch (e: unknown) {
-    const err = coerceError(e);
-    throw new Error(errorContext, { cause: err });
+    throw wrapError(errorContext, e, false);
   }
 }
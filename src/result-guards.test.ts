@@ -0,0 +1,88 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { assertResult, isErr, isOk, isResult } from "./result-guards";
+import type { Result } from "./types";
+
+const isNumber = (v: unknown): v is number => typeof v === "number";
+const isString = (v: unknown): v is string => typeof v === "string";
+
+describe(isResult, () => {
+  it("should accept valid results", () => {
+    expect(isResult({ val: 1 })).toBe(true);
+    expect(isResult({ val: undefined })).toBe(true);
+    expect(isResult({ err: new Error() })).toBe(true);
+    expect(isResult({ val: undefined, err: "bad" })).toBe(true);
+    expect(isResult({ val: 1, err: undefined })).toBe(true);
+  });
+
+  it("should reject values that are not results", () => {
+    for (const value of [null, undefined, 1, "val", [], {}, { value: 1 }]) {
+      expect(isResult(value)).toBe(false);
+    }
+  });
+
+  it("should reject results with both val and err defined", () => {
+    expect(isResult({ val: 1, err: new Error() })).toBe(false);
+  });
+
+  it("should apply validators", () => {
+    const validators = { val: isNumber, err: isString };
+    expect(isResult({ val: 1 }, validators)).toBe(true);
+    expect(isResult({ val: "1" }, validators)).toBe(false);
+    expect(isResult({ err: "bad" }, validators)).toBe(true);
+    expect(isResult({ err: new Error() }, validators)).toBe(false);
+  });
+
+  it("should narrow the type using validators", () => {
+    const value: unknown = { val: 1 };
+    if (isResult(value, { val: isNumber, err: isString })) {
+      expectTypeOf(value).toEqualTypeOf<Result<number, string>>();
+    }
+  });
+});
+
+describe(assertResult, () => {
+  it("should not throw for valid results", () => {
+    const value: unknown = { val: 1 };
+    assertResult(value, { val: isNumber });
+    expectTypeOf(value).toEqualTypeOf<Result<number, unknown>>();
+  });
+
+  it("should describe why a value is invalid", () => {
+    expect(() => assertResult(null)).toThrow(
+      new TypeError("Invalid Result: expected an object")
+    );
+    expect(() => assertResult({})).toThrow(
+      new TypeError("Invalid Result: expected a val or err property")
+    );
+    expect(() => assertResult({ val: 1, err: 2 })).toThrow(
+      new TypeError("Invalid Result: val and err must not both be defined")
+    );
+    expect(() => assertResult({ val: "1" }, { val: isNumber })).toThrow(
+      new TypeError("Invalid Result: val failed validation")
+    );
+    expect(() => assertResult({ err: 1 }, { err: isString })).toThrow(
+      new TypeError("Invalid Result: err failed validation")
+    );
+  });
+});
+
+describe("isOk and isErr", () => {
+  const ok: Result<number, string> = { val: 1 } as Result<number, string>;
+  const fail: Result<number, string> = { err: "bad" } as Result<number, string>;
+
+  it("should check the variant of a result", () => {
+    expect(isOk(ok)).toBe(true);
+    expect(isOk(fail)).toBe(false);
+    expect(isErr(ok)).toBe(false);
+    expect(isErr(fail)).toBe(true);
+  });
+
+  it("should narrow the result", () => {
+    if (isOk(ok)) {
+      expectTypeOf(ok.val).toEqualTypeOf<number>();
+    }
+    if (isErr(fail)) {
+      expectTypeOf(fail.err).toEqualTypeOf<string>();
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import type { Result } from "./types";
+
+/**
+ * Runtime validators for the `val` and `err` of a `Result`.
+ */
+export type ResultValidators<T, E> = {
+  /** Type guard for the value of a successful `Result`. */
+  val?: (val: unknown) => val is T;
+  /** Type guard for the error of a failed `Result`. */
+  err?: (err: unknown) => err is E;
+};
+
+/**
+ * Describe why `value` is not a valid `Result`, or return `undefined` if it is.
+ */
+function resultProblem(
+  value: unknown,
+  validators?: ResultValidators<unknown, unknown>
+): string | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "expected an object";
+  }
+  if (!("val" in value) && !("err" in value)) {
+    return "expected a val or err property";
+  }
+  const { val, err } = value as { val?: unknown; err?: unknown };
+  if (err !== undefined) {
+    if (val !== undefined) {
+      return "val and err must not both be defined";
+    }
+    if (validators?.err && !validators.err(err)) {
+      return "err failed validation";
+    }
+  } else if (validators?.val && !validators.val(val)) {
+    return "val failed validation";
+  }
+  return undefined;
+}
+
+/**
+ * Check whether an unknown value is a `Result`: an object with a `val` or `err` property,
+ * where `val` is undefined if `err` is defined.
+ *
+ * @param value - value to check
+ * @param validators - optional type guards for the value and error
+ *
+ * @example
+ * ```typescript
+ * const data: unknown = JSON.parse(body);
+ * if (isResult(data, { val: isUser })) {
+ *   // data: Result<User, unknown>
+ * }
+ * ```
+ */
+export function isResult<T = unknown, E = unknown>(
+  value: unknown,
+  validators?: ResultValidators<T, E>
+): value is Result<T, E> {
+  return resultProblem(value, validators) === undefined;
+}
+
+/**
+ * Assert that an unknown value is a `Result`, as checked by {@link isResult}.
+ *
+ * @param value - value to check
+ * @param validators - optional type guards for the value and error
+ * @throws TypeError describing why `value` is not a valid `Result`
+ *
+ * @example
+ * ```typescript
+ * const data: unknown = await response.json();
+ * assertResult(data, { val: isUser });
+ * // data: Result<User, unknown>
+ * ```
+ */
+export function assertResult<T = unknown, E = unknown>(
+  value: unknown,
+  validators?: ResultValidators<T, E>
+): asserts value is Result<T, E> {
+  const problem = resultProblem(value, validators);
+  if (problem) {
+    throw new TypeError(`Invalid Result: ${problem}`);
+  }
+}
+
+/**
+ * Check whether a `Result` succeeded, narrowing it to the `val` variant.
+ *
+ * @param res - result to check
+ */
+export function isOk<T, E>(res: Result<T, E>): res is { val: T; err?: undefined } {
+  return res.err === undefined;
+}
+
+/**
+ * Check whether a `Result` failed, narrowing it to the `err` variant.
+ *
+ * @param res - result to check
+ */
+export function isErr<T, E>(res: Result<T, E>): res is { err: E; val?: undefined } {
+  return res.err !== undefined;
+}
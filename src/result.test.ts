@@ -0,0 +1,299 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import Result from "./result";
+
+const ok = <T>(val: T): Result<T, string> => ({ val });
+const fail = <T = never>(err: string): Result<T, string> => ({ err });
+
+describe("Result", () => {
+  describe(Result.map, () => {
+    it("should transform the value", () => {
+      expect(Result.map(ok(2), (v) => v * 2)).toEqual({ val: 4 });
+    });
+
+    it("should leave errors untouched", () => {
+      const fn = vi.fn();
+      const res = fail("bad");
+      expect(Result.map(res, fn)).toBe(res);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should accept a Promise and an async function", async () => {
+      const res = Result.map(Promise.resolve(ok(2)), async (v) => v * 2);
+      expect(await res).toEqual({ val: 4 });
+      expect(await Result.map(Promise.resolve(fail("bad")), vi.fn())).toEqual({
+        err: "bad",
+      });
+    });
+  });
+
+  describe(Result.mapErr, () => {
+    it("should transform the error", () => {
+      expect(Result.mapErr(fail("bad"), (e) => e.length)).toEqual({ err: 3 });
+    });
+
+    it("should leave values untouched", () => {
+      const fn = vi.fn();
+      const res = ok(1);
+      expect(Result.mapErr(res, fn)).toBe(res);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should accept a Promise and an async function", async () => {
+      const res = Result.mapErr(Promise.resolve(fail("bad")), async (e) => e.length);
+      expect(await res).toEqual({ err: 3 });
+      expect(await Result.mapErr(Promise.resolve(ok(1)), vi.fn())).toEqual({
+        val: 1,
+      });
+    });
+  });
+
+  describe(Result.andThen, () => {
+    it("should chain the next operation on success", () => {
+      expect(Result.andThen(ok(2), (v) => ok(v + 1))).toEqual({ val: 3 });
+      expect(Result.andThen(ok(2), () => fail("next"))).toEqual({ err: "next" });
+    });
+
+    it("should short-circuit on error", () => {
+      const fn = vi.fn();
+      expect(Result.andThen(fail("bad"), fn)).toEqual({ err: "bad" });
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should accept a Promise and an async function", async () => {
+      const next = async (v: number) => ok(v + 1);
+      expect(await Result.andThen(Promise.resolve(ok(2)), next)).toEqual({
+        val: 3,
+      });
+      expect(await Result.andThen(Promise.resolve(fail("bad")), next)).toEqual({
+        err: "bad",
+      });
+    });
+  });
+
+  describe(Result.orElse, () => {
+    it("should recover from an error", () => {
+      expect(Result.orElse(fail("bad"), () => ok(1))).toEqual({ val: 1 });
+      expect(Result.orElse(fail("bad"), (e) => fail(e + "!"))).toEqual({
+        err: "bad!",
+      });
+    });
+
+    it("should leave values untouched", () => {
+      const fn = vi.fn();
+      expect(Result.orElse(ok(1), fn)).toEqual({ val: 1 });
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should accept a Promise and an async function", async () => {
+      const recover = async () => ok(0);
+      expect(await Result.orElse(Promise.resolve(fail("bad")), recover)).toEqual({
+        val: 0,
+      });
+      expect(await Result.orElse(Promise.resolve(ok(1)), recover)).toEqual({
+        val: 1,
+      });
+    });
+  });
+
+  describe(Result.unwrap, () => {
+    it("should return the value", () => {
+      expect(Result.unwrap(ok(1))).toEqual(1);
+    });
+
+    it("should throw the error", () => {
+      const error = new Error();
+      expect(() => Result.unwrap({ err: error })).toThrow(error);
+    });
+
+    it("should coerce non-error values before throwing", () => {
+      expect(() => Result.unwrap(fail("bad"))).toThrow(new Error("bad"));
+    });
+
+    it("should accept a Promise", async () => {
+      expect(await Result.unwrap(Promise.resolve(ok(1)))).toEqual(1);
+      await expect(Result.unwrap(Promise.resolve(fail("bad")))).rejects.toThrow(
+        "bad"
+      );
+    });
+  });
+
+  describe(Result.unwrapOr, () => {
+    it("should return the value or the fallback", () => {
+      expect(Result.unwrapOr(ok(1), 0)).toEqual(1);
+      expect(Result.unwrapOr(fail("bad"), 0)).toEqual(0);
+    });
+
+    it("should accept a Promise", async () => {
+      expect(await Result.unwrapOr(Promise.resolve(ok(1)), 0)).toEqual(1);
+      expect(await Result.unwrapOr(Promise.resolve(fail("bad")), 0)).toEqual(0);
+    });
+  });
+
+  describe(Result.unwrapOrElse, () => {
+    it("should return the value or compute the fallback", () => {
+      expect(Result.unwrapOrElse(ok(1), () => 0)).toEqual(1);
+      expect(Result.unwrapOrElse(fail("bad"), (e) => e.length)).toEqual(3);
+    });
+
+    it("should accept a Promise and an async function", async () => {
+      const fallback = async (e: string) => e.length;
+      expect(await Result.unwrapOrElse(Promise.resolve(ok(1)), fallback)).toEqual(1);
+      expect(
+        await Result.unwrapOrElse(Promise.resolve(fail("bad")), fallback)
+      ).toEqual(3);
+    });
+  });
+
+  describe(Result.match, () => {
+    const handlers = {
+      val: (v: number) => `val ${v}`,
+      err: (e: string) => `err ${e}`,
+    };
+
+    it("should call the handler matching the variant", () => {
+      expect(Result.match(ok(1), handlers)).toEqual("val 1");
+      expect(Result.match(fail("bad"), handlers)).toEqual("err bad");
+    });
+
+    it("should accept a Promise", async () => {
+      expect(await Result.match(Promise.resolve(ok(1)), handlers)).toEqual("val 1");
+      expect(await Result.match(Promise.resolve(fail("bad")), handlers)).toEqual(
+        "err bad"
+      );
+    });
+  });
+
+  describe(Result.toTuple, () => {
+    it("should convert results to tuples", () => {
+      expect(Result.toTuple(ok(1))).toEqual([1, undefined]);
+      expect(Result.toTuple(fail("bad"))).toEqual([undefined, "bad"]);
+    });
+
+    it("should accept a Promise", async () => {
+      expect(await Result.toTuple(Promise.resolve(ok(1)))).toEqual([1, undefined]);
+    });
+  });
+
+  describe(Result.fromTuple, () => {
+    it("should convert tuples to results", () => {
+      expect(Result.fromTuple([1, undefined])).toEqual({ val: 1 });
+      expect(Result.fromTuple([undefined, "bad"])).toEqual({ err: "bad" });
+    });
+
+    it("should accept a Promise", async () => {
+      expect(
+        await Result.fromTuple(Promise.resolve([undefined, "bad"] as const))
+      ).toEqual({ err: "bad" });
+    });
+  });
+
+  describe(Result.all, () => {
+    it("should return every value if all succeed", () => {
+      expect(Result.all([ok(1), ok("a")])).toEqual({ val: [1, "a"] });
+      expect(Result.all([])).toEqual({ val: [] });
+    });
+
+    it("should return the first error", () => {
+      expect(Result.all([ok(1), fail("a"), fail("b")])).toEqual({ err: "a" });
+    });
+
+    it("should preserve tuple types", () => {
+      const res = Result.all([ok(1), ok("a")]);
+      expectTypeOf(res).toEqualTypeOf<Result<[number, string], string>>();
+    });
+  });
+
+  describe(Result.collect, () => {
+    it("should return every value if all succeed", () => {
+      expect(Result.collect([ok(1), ok("a")])).toEqual({ val: [1, "a"] });
+    });
+
+    it("should return every error", () => {
+      expect(Result.collect([fail("a"), ok(1), fail("b")])).toEqual({
+        err: ["a", "b"],
+      });
+    });
+  });
+
+  describe(Result.any, () => {
+    it("should return the first value", () => {
+      expect(Result.any([fail("a"), ok(1), ok(2)])).toEqual({ val: 1 });
+    });
+
+    it("should return every error if none succeed", () => {
+      expect(Result.any([fail("a"), fail("b")])).toEqual({ err: ["a", "b"] });
+      expect(Result.any([])).toEqual({ err: [] });
+    });
+  });
+
+  describe(Result.partition, () => {
+    it("should split values and errors", () => {
+      expect(Result.partition([ok(1), fail("a"), ok(2), fail("b")])).toEqual({
+        vals: [1, 2],
+        errs: ["a", "b"],
+      });
+    });
+  });
+
+  describe("async aggregation", () => {
+    const error = new Error();
+    const resolve = <T>(val: T) => vi.fn(async () => val);
+    const reject = () => vi.fn(() => Promise.reject(error));
+
+    it("should execute every function concurrently", async () => {
+      const order: string[] = [];
+      const slow = async () => {
+        await new Promise((r) => setTimeout(r, 5));
+        order.push("slow");
+      };
+      const fast = async () => {
+        order.push("fast");
+      };
+      await Result.allAsync([slow, fast]);
+      expect(order).toEqual(["fast", "slow"]);
+    });
+
+    it("should combine results with allAsync", async () => {
+      const res = await Result.allAsync([resolve(1), resolve("a")]);
+      expect(res).toEqual({ val: [1, "a"] });
+      expectTypeOf(res).toEqualTypeOf<Result<[number, string]>>();
+      expect(await Result.allAsync([resolve(1), reject()])).toEqual({ err: error });
+    });
+
+    it("should combine results with collectAsync", async () => {
+      expect(await Result.collectAsync([resolve(1), resolve(2)])).toEqual({
+        val: [1, 2],
+      });
+      expect(await Result.collectAsync([reject(), resolve(1), reject()])).toEqual({
+        err: [error, error],
+      });
+    });
+
+    it("should find the first success with anyAsync", async () => {
+      expect(await Result.anyAsync([reject(), resolve(1)])).toEqual({ val: 1 });
+      expect(await Result.anyAsync([reject()])).toEqual({ err: [error] });
+    });
+
+    it("should resolve anyAsync on the first success without waiting for the rest", async () => {
+      const pending = () => new Promise<never>(() => {});
+      expect(await Result.anyAsync([resolve(1), pending])).toEqual({ val: 1 });
+      expect(await Result.anyAsync([])).toEqual({ err: [] });
+    });
+
+    it("should split results with partitionAsync", async () => {
+      expect(await Result.partitionAsync([resolve(1), reject()])).toEqual({
+        vals: [1],
+        errs: [error],
+      });
+    });
+
+    it("should capture functions that throw synchronously", async () => {
+      const throws = () => {
+        throw error;
+      };
+      expect(await Result.allAsync([throws as () => Promise<void>])).toEqual({
+        err: error,
+      });
+    });
+  });
+});
@@ -0,0 +1,543 @@
+import { coerceError } from "./coerce-error";
+import { isErr } from "./result-guards";
+import { safeTry } from "./safe-try";
+import type { Result as ResultType, ResultTuple } from "./types";
+
+type Result<T, E = Error> = ResultType<T, E>;
+
+type AnyResult = Result<unknown, unknown>;
+type AsyncThunk = () => Promise<unknown>;
+type ValOf<R> = R extends { val: infer T } ? T : never;
+type ErrOf<R> = R extends { err: infer E } ? E : never;
+type Vals<R extends readonly AnyResult[]> = {
+  -readonly [K in keyof R]: ValOf<R[K]>;
+};
+type ThunkVals<F extends readonly AsyncThunk[]> = {
+  -readonly [K in keyof F]: Awaited<ReturnType<F[K]>>;
+};
+
+/**
+ * Transform the value of a successful `Result`, leaving errors untouched.
+ *
+ * Also accepts a `Promise<Result>`, in which case `fn` may be async.
+ *
+ * @param res - result to transform
+ * @param fn - function applied to `res.val`
+ *
+ * @example
+ * ```typescript
+ * const res = Result.map(safeTry(() => readConfig()), (config) => config.port);
+ * ```
+ */
+export function map<T, U, E>(res: Result<T, E>, fn: (val: T) => U): Result<U, E>;
+export function map<T, U, E>(
+  res: Promise<Result<T, E>>,
+  fn: (val: T) => U | Promise<U>
+): Promise<Result<U, E>>;
+export function map<T, U, E>(
+  res: Result<T, E> | Promise<Result<T, E>>,
+  fn: (val: T) => U | Promise<U>
+): Result<U | Promise<U>, E> | Promise<Result<U, E>> {
+  if (res instanceof Promise) {
+    return res.then(async (r) => (isErr(r) ? r : { val: await fn(r.val) }));
+  }
+  return isErr(res) ? res : { val: fn(res.val) };
+}
+
+/**
+ * Transform the error of a failed `Result`, leaving values untouched.
+ *
+ * Also accepts a `Promise<Result>`, in which case `fn` may be async.
+ *
+ * @param res - result to transform
+ * @param fn - function applied to `res.err`
+ *
+ * @example
+ * ```typescript
+ * const res = Result.mapErr(safeTry(() => readConfig()), (err) => err.message);
+ * ```
+ */
+export function mapErr<T, E, F>(res: Result<T, E>, fn: (err: E) => F): Result<T, F>;
+export function mapErr<T, E, F>(
+  res: Promise<Result<T, E>>,
+  fn: (err: E) => F | Promise<F>
+): Promise<Result<T, F>>;
+export function mapErr<T, E, F>(
+  res: Result<T, E> | Promise<Result<T, E>>,
+  fn: (err: E) => F | Promise<F>
+): Result<T, F | Promise<F>> | Promise<Result<T, F>> {
+  if (res instanceof Promise) {
+    return res.then(async (r) => (isErr(r) ? { err: await fn(r.err) } : r));
+  }
+  return isErr(res) ? { err: fn(res.err) } : res;
+}
+
+/**
+ * Chain another fallible operation onto a successful `Result`.
+ *
+ * Also accepts a `Promise<Result>`, in which case `fn` may be async.
+ *
+ * @param res - result to chain from
+ * @param fn - function applied to `res.val`, returning a new `Result`
+ *
+ * @example
+ * ```typescript
+ * const res = Result.andThen(parseInput(input), (parsed) => validate(parsed));
+ * ```
+ */
+export function andThen<T, U, E, F>(
+  res: Result<T, E>,
+  fn: (val: T) => Result<U, F>
+): Result<U, E | F>;
+export function andThen<T, U, E, F>(
+  res: Promise<Result<T, E>>,
+  fn: (val: T) => Result<U, F> | Promise<Result<U, F>>
+): Promise<Result<U, E | F>>;
+export function andThen<T, U, E, F>(
+  res: Result<T, E> | Promise<Result<T, E>>,
+  fn: (val: T) => Result<U, F> | Promise<Result<U, F>>
+): Result<U, E | F> | Promise<Result<U, E | F>> {
+  if (res instanceof Promise) {
+    return res.then((r) => (isErr(r) ? r : fn(r.val)));
+  }
+  return isErr(res) ? res : (fn(res.val) as Result<U, F>);
+}
+
+/**
+ * Recover from a failed `Result` by running another fallible operation.
+ *
+ * Also accepts a `Promise<Result>`, in which case `fn` may be async.
+ *
+ * @param res - result to recover
+ * @param fn - function applied to `res.err`, returning a new `Result`
+ *
+ * @example
+ * ```typescript
+ * const res = Result.orElse(readCache(key), () => fetchFromServer(key));
+ * ```
+ */
+export function orElse<T, U, E, F>(
+  res: Result<T, E>,
+  fn: (err: E) => Result<U, F>
+): Result<T | U, F>;
+export function orElse<T, U, E, F>(
+  res: Promise<Result<T, E>>,
+  fn: (err: E) => Result<U, F> | Promise<Result<U, F>>
+): Promise<Result<T | U, F>>;
+export function orElse<T, U, E, F>(
+  res: Result<T, E> | Promise<Result<T, E>>,
+  fn: (err: E) => Result<U, F> | Promise<Result<U, F>>
+): Result<T | U, F> | Promise<Result<T | U, F>> {
+  if (res instanceof Promise) {
+    return res.then((r) => (isErr(r) ? fn(r.err) : r));
+  }
+  return isErr(res) ? (fn(res.err) as Result<U, F>) : res;
+}
+
+/**
+ * Extract the value of a `Result`, throwing its error if it failed.
+ *
+ * Non-`Error` values in `err` are converted with `coerceError` before being thrown.
+ *
+ * Also accepts a `Promise<Result>`.
+ *
+ * @param res - result to unwrap
+ * @returns `res.val`
+ * @throws `res.err`, if present
+ *
+ * @example
+ * ```typescript
+ * const config = Result.unwrap(safeTry(() => readConfig()));
+ * ```
+ */
+export function unwrap<T, E>(res: Result<T, E>): T;
+export function unwrap<T, E>(res: Promise<Result<T, E>>): Promise<T>;
+export function unwrap<T, E>(
+  res: Result<T, E> | Promise<Result<T, E>>
+): T | Promise<T> {
+  if (res instanceof Promise) {
+    return res.then((r) => unwrap(r));
+  }
+  if (isErr(res)) {
+    throw coerceError(res.err);
+  }
+  return res.val;
+}
+
+/**
+ * Extract the value of a `Result`, or return a fallback if it failed.
+ *
+ * Also accepts a `Promise<Result>`.
+ *
+ * @param res - result to unwrap
+ * @param fallback - value returned if `res` contains an error
+ *
+ * @example
+ * ```typescript
+ * const port = Result.unwrapOr(safeTry(() => readPort()), 8080);
+ * ```
+ */
+export function unwrapOr<T, U, E>(res: Result<T, E>, fallback: U): T | U;
+export function unwrapOr<T, U, E>(
+  res: Promise<Result<T, E>>,
+  fallback: U
+): Promise<T | U>;
+export function unwrapOr<T, U, E>(
+  res: Result<T, E> | Promise<Result<T, E>>,
+  fallback: U
+): T | U | Promise<T | U> {
+  if (res instanceof Promise) {
+    return res.then((r) => unwrapOr(r, fallback));
+  }
+  return isErr(res) ? fallback : res.val;
+}
+
+/**
+ * Extract the value of a `Result`, or compute a fallback from its error.
+ *
+ * Also accepts a `Promise<Result>`, in which case `fn` may be async.
+ *
+ * @param res - result to unwrap
+ * @param fn - function applied to `res.err` to produce a fallback value
+ *
+ * @example
+ * ```typescript
+ * const port = Result.unwrapOrElse(safeTry(() => readPort()), (err) => {
+ *   console.warn("Using default port:", err);
+ *   return 8080;
+ * });
+ * ```
+ */
+export function unwrapOrElse<T, U, E>(res: Result<T, E>, fn: (err: E) => U): T | U;
+export function unwrapOrElse<T, U, E>(
+  res: Promise<Result<T, E>>,
+  fn: (err: E) => U | Promise<U>
+): Promise<T | U>;
+export function unwrapOrElse<T, U, E>(
+  res: Result<T, E> | Promise<Result<T, E>>,
+  fn: (err: E) => U | Promise<U>
+): T | U | Promise<T | U> {
+  if (res instanceof Promise) {
+    return res.then((r) => (isErr(r) ? fn(r.err) : r.val));
+  }
+  return isErr(res) ? fn(res.err) : res.val;
+}
+
+/**
+ * Handle both variants of a `Result`, returning the output of the matching handler.
+ *
+ * Also accepts a `Promise<Result>`, in which case the handlers may be async.
+ *
+ * @param res - result to match
+ * @param handlers - `val` handler for success and `err` handler for failure
+ *
+ * @example
+ * ```typescript
+ * const message = Result.match(safeTry(() => readConfig()), {
+ *   val: (config) => `Loaded ${config.name}`,
+ *   err: (err) => `Failed to load config: ${err.message}`,
+ * });
+ * ```
+ */
+export function match<T, E, A, B>(
+  res: Result<T, E>,
+  handlers: { val: (val: T) => A; err: (err: E) => B }
+): A | B;
+export function match<T, E, A, B>(
+  res: Promise<Result<T, E>>,
+  handlers: { val: (val: T) => A | Promise<A>; err: (err: E) => B | Promise<B> }
+): Promise<A | B>;
+export function match<T, E, A, B>(
+  res: Result<T, E> | Promise<Result<T, E>>,
+  handlers: { val: (val: T) => A | Promise<A>; err: (err: E) => B | Promise<B> }
+): A | B | Promise<A | B> {
+  if (res instanceof Promise) {
+    return res.then((r) => (isErr(r) ? handlers.err(r.err) : handlers.val(r.val)));
+  }
+  return (isErr(res) ? handlers.err(res.err) : handlers.val(res.val)) as A | B;
+}
+
+/**
+ * Convert a `Result` to a Go-style `[val, err]` tuple.
+ *
+ * Also accepts a `Promise<Result>`.
+ *
+ * @param res - result to convert
+ *
+ * @example
+ * ```typescript
+ * const [config, err] = Result.toTuple(safeTry(() => readConfig()));
+ * ```
+ */
+export function toTuple<T, E>(res: Result<T, E>): ResultTuple<T, E>;
+export function toTuple<T, E>(
+  res: Promise<Result<T, E>>
+): Promise<ResultTuple<T, E>>;
+export function toTuple<T, E>(
+  res: Result<T, E> | Promise<Result<T, E>>
+): ResultTuple<T, E> | Promise<ResultTuple<T, E>> {
+  if (res instanceof Promise) {
+    return res.then((r) => toTuple(r));
+  }
+  return isErr(res) ? [undefined, res.err] : [res.val, undefined];
+}
+
+/**
+ * Convert a Go-style `[val, err]` tuple to a `Result`.
+ *
+ * Also accepts a `Promise` of a tuple.
+ *
+ * @param tuple - tuple to convert
+ *
+ * @example
+ * ```typescript
+ * const res = Result.fromTuple(tryTuple(() => readConfig()));
+ * ```
+ */
+export function fromTuple<T, E>(tuple: Readonly<ResultTuple<T, E>>): Result<T, E>;
+export function fromTuple<T, E>(
+  tuple: Promise<Readonly<ResultTuple<T, E>>>
+): Promise<Result<T, E>>;
+export function fromTuple<T, E>(
+  tuple: Readonly<ResultTuple<T, E>> | Promise<Readonly<ResultTuple<T, E>>>
+): Result<T, E> | Promise<Result<T, E>> {
+  if (tuple instanceof Promise) {
+    return tuple.then((t) => fromTuple(t));
+  }
+  const [val, err] = tuple;
+  return err !== undefined ? { err } : { val: val as T };
+}
+
+/**
+ * Combine an array of `Result` objects into a single `Result`.
+ *
+ * Preserves tuple types, e.g. `[Result<A>, Result<B>]` becomes `Result<[A, B]>`.
+ *
+ * @param results - results to combine
+ * @returns an array of every value if all succeeded, otherwise the first error
+ *
+ * @example
+ * ```typescript
+ * const res = Result.all([safeTry(() => readUser()), safeTry(() => readSettings())]);
+ * if (!res.err) {
+ *   const [user, settings] = res.val;
+ * }
+ * ```
+ */
+export function all<R extends readonly AnyResult[] | []>(
+  results: R
+): Result<Vals<R>, ErrOf<R[number]>> {
+  const vals: unknown[] = [];
+  for (const res of results) {
+    if (isErr(res)) {
+      return { err: res.err as ErrOf<R[number]> };
+    }
+    vals.push(res.val);
+  }
+  return { val: vals as Vals<R> };
+}
+
+/**
+ * Combine an array of `Result` objects into a single `Result`, keeping every error.
+ *
+ * Preserves tuple types, e.g. `[Result<A>, Result<B>]` becomes `Result<[A, B], Error[]>`.
+ *
+ * @param results - results to combine
+ * @returns an array of every value if all succeeded, otherwise an array of every error
+ *
+ * @example
+ * ```typescript
+ * const res = Result.collect(files.map((f) => safeTry(() => parse(f))));
+ * if (res.err) {
+ *   res.err.forEach((err) => console.error(err));
+ * }
+ * ```
+ */
+export function collect<R extends readonly AnyResult[] | []>(
+  results: R
+): Result<Vals<R>, ErrOf<R[number]>[]> {
+  const { vals, errs } = partition(results);
+  if (errs.length > 0) {
+    return { err: errs as ErrOf<R[number]>[] };
+  }
+  return { val: vals as Vals<R> };
+}
+
+/**
+ * Return the first successful `Result` from an array of `Result` objects.
+ *
+ * @param results - results to search
+ * @returns the first value if any succeeded, otherwise an array of every error
+ *
+ * @example
+ * ```typescript
+ * const res = Result.any(mirrors.map((url) => safeTry(() => readCache(url))));
+ * ```
+ */
+export function any<R extends readonly AnyResult[] | []>(
+  results: R
+): Result<ValOf<R[number]>, ErrOf<R[number]>[]> {
+  const errs: unknown[] = [];
+  for (const res of results) {
+    if (!isErr(res)) {
+      return { val: res.val as ValOf<R[number]> };
+    }
+    errs.push(res.err);
+  }
+  return { err: errs as ErrOf<R[number]>[] };
+}
+
+/**
+ * Split an array of `Result` objects into their values and errors.
+ *
+ * @param results - results to split
+ * @returns `vals` and `errs`, each in their original order
+ *
+ * @example
+ * ```typescript
+ * const { vals, errs } = Result.partition(ids.map((id) => safeTry(() => load(id))));
+ * ```
+ */
+export function partition<R extends readonly AnyResult[] | []>(
+  results: R
+): { vals: ValOf<R[number]>[]; errs: ErrOf<R[number]>[] } {
+  const vals: unknown[] = [];
+  const errs: unknown[] = [];
+  for (const res of results) {
+    if (isErr(res)) {
+      errs.push(res.err);
+    } else {
+      vals.push(res.val);
+    }
+  }
+  return {
+    vals: vals as ValOf<R[number]>[],
+    errs: errs as ErrOf<R[number]>[],
+  };
+}
+
+function settle(thunks: readonly AsyncThunk[]) {
+  return Promise.all(thunks.map((fn) => safeTry(fn)));
+}
+
+/**
+ * Concurrently execute async functions with `safeTry`, combining their results with {@link all}.
+ *
+ * @param thunks - async functions to execute
+ *
+ * @example
+ * ```typescript
+ * const res = await Result.allAsync([() => fetchUser(id), () => fetchPosts(id)]);
+ * ```
+ */
+export async function allAsync<F extends readonly AsyncThunk[] | []>(
+  thunks: F
+): Promise<Result<ThunkVals<F>>> {
+  return all(await settle(thunks)) as Result<ThunkVals<F>>;
+}
+
+/**
+ * Concurrently execute async functions with `safeTry`, combining their results with {@link collect}.
+ *
+ * @param thunks - async functions to execute
+ *
+ * @example
+ * ```typescript
+ * const res = await Result.collectAsync(ids.map((id) => () => fetchUser(id)));
+ * ```
+ */
+export async function collectAsync<F extends readonly AsyncThunk[] | []>(
+  thunks: F
+): Promise<Result<ThunkVals<F>, Error[]>> {
+  return collect(await settle(thunks)) as Result<ThunkVals<F>, Error[]>;
+}
+
+/**
+ * Concurrently execute async functions with `safeTry`, returning the first success to settle.
+ *
+ * Like `Promise.any`, resolves as soon as any function succeeds, without waiting for the others.
+ * If every function fails, resolves with an array of every error, as with {@link any}.
+ *
+ * @param thunks - async functions to execute
+ *
+ * @example
+ * ```typescript
+ * const res = await Result.anyAsync(mirrors.map((url) => () => fetch(url)));
+ * ```
+ */
+export async function anyAsync<F extends readonly AsyncThunk[] | []>(
+  thunks: F
+): Promise<Result<ThunkVals<F>[number], Error[]>> {
+  const results = thunks.map((fn) => Promise.resolve(safeTry(fn)));
+  const firstVal = results.map((p) =>
+    p.then((res) => (isErr(res) ? Promise.reject(res.err) : res))
+  );
+  try {
+    return (await Promise.any(firstVal)) as Result<ThunkVals<F>[number], Error[]>;
+  } catch {
+    return any(await Promise.all(results)) as Result<ThunkVals<F>[number], Error[]>;
+  }
+}
+
+/**
+ * Concurrently execute async functions with `safeTry`, splitting their results with {@link partition}.
+ *
+ * @param thunks - async functions to execute
+ *
+ * @example
+ * ```typescript
+ * const { vals, errs } = await Result.partitionAsync(ids.map((id) => () => load(id)));
+ * ```
+ */
+export async function partitionAsync<F extends readonly AsyncThunk[] | []>(
+  thunks: F
+): Promise<{ vals: ThunkVals<F>[number][]; errs: Error[] }> {
+  return partition(await settle(thunks)) as {
+    vals: ThunkVals<F>[number][];
+    errs: Error[];
+  };
+}
+
+/**
+ * Utilities for operating on `Result` objects without `if (res.err)` ladders.
+ *
+ * Available Functions:
+ * - `map` - transform the value
+ * - `mapErr` - transform the error
+ * - `andThen` - chain another fallible operation
+ * - `orElse` - recover from an error with another fallible operation
+ * - `unwrap` - extract the value or throw the error
+ * - `unwrapOr` - extract the value or return a fallback
+ * - `unwrapOrElse` - extract the value or compute a fallback
+ * - `match` - handle both variants
+ * - `toTuple` / `fromTuple` - convert to and from Go-style `[val, err]` tuples
+ * - `all` - combine results, failing on the first error
+ * - `collect` - combine results, keeping every error
+ * - `any` - find the first success
+ * - `partition` - split results into values and errors
+ *
+ * `allAsync`, `collectAsync`, `anyAsync`, and `partitionAsync` concurrently execute
+ * async functions with `safeTry` before combining their results.
+ */
+const Result = {
+  map,
+  mapErr,
+  andThen,
+  orElse,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+  match,
+  toTuple,
+  fromTuple,
+  all,
+  collect,
+  any,
+  partition,
+  allAsync,
+  collectAsync,
+  anyAsync,
+  partitionAsync,
+};
+
+export default Result;
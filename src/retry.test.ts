@@ -0,0 +1,149 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+  vi,
+} from "vitest";
+import { RetryError } from "./errors";
+import { retry } from "./retry";
+import type { Result } from "./types";
+
+describe(retry, () => {
+  const failTimes = (n: number) => {
+    let calls = 0;
+    return vi.fn(async () => {
+      calls++;
+      if (calls <= n) {
+        throw new Error(`attempt ${calls}`);
+      }
+      return "ok";
+    });
+  };
+
+  const recordDelays = () => {
+    const delays: number[] = [];
+    const sleep = vi.fn(async (ms: number) => {
+      delays.push(ms);
+    });
+    return { delays, sleep };
+  };
+
+  it("should return the value of the first successful attempt", async () => {
+    const fn = failTimes(2);
+    const { sleep } = recordDelays();
+    const res = await retry(fn, { sleep });
+    expect(res).toEqual({ val: "ok" });
+    expect(fn).toHaveBeenCalledTimes(3);
+    expectTypeOf(res).toEqualTypeOf<Result<string, RetryError>>();
+  });
+
+  it("should pass the attempt number to the function", async () => {
+    const fn = vi.fn(() => {
+      throw new Error();
+    });
+    const { sleep } = recordDelays();
+    await retry(fn, { attempts: 2, sleep });
+    expect(fn.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it("should return every attempt error if all attempts fail", async () => {
+    const { sleep } = recordDelays();
+    const res = await retry(failTimes(5), { attempts: 3, sleep });
+    expect(res.err).toBeInstanceOf(RetryError);
+    expect(res.err?.attempts).toEqual(3);
+    expect(res.err?.errors.map((e: Error) => e.message)).toEqual([
+      "attempt 1",
+      "attempt 2",
+      "attempt 3",
+    ]);
+  });
+
+  it("should coerce non-error values thrown by the function", async () => {
+    const res = await retry(() => Promise.reject("bad"), { attempts: 1 });
+    expect(res.err?.lastError).toEqual(new Error("bad"));
+  });
+
+  it("should wait with exponential backoff by default", async () => {
+    const { delays, sleep } = recordDelays();
+    await retry(failTimes(5), { attempts: 4, sleep });
+    expect(delays).toEqual([100, 200, 400]);
+  });
+
+  it("should support linear and custom backoff", async () => {
+    const linear = recordDelays();
+    await retry(failTimes(5), {
+      attempts: 4,
+      backoff: "linear",
+      delayMs: 50,
+      sleep: linear.sleep,
+    });
+    expect(linear.delays).toEqual([50, 100, 150]);
+
+    const custom = recordDelays();
+    await retry(failTimes(5), {
+      attempts: 3,
+      backoff: (attempt) => attempt * 7,
+      sleep: custom.sleep,
+    });
+    expect(custom.delays).toEqual([7, 14]);
+  });
+
+  it("should cap delays at maxDelayMs", async () => {
+    const { delays, sleep } = recordDelays();
+    await retry(failTimes(5), { attempts: 4, maxDelayMs: 250, sleep });
+    expect(delays).toEqual([100, 200, 250]);
+  });
+
+  it("should randomize delays with jitter", async () => {
+    const { delays, sleep } = recordDelays();
+    await retry(failTimes(5), {
+      attempts: 3,
+      jitter: true,
+      random: () => 0.5,
+      sleep,
+    });
+    expect(delays).toEqual([50, 100]);
+  });
+
+  it("should stop retrying when shouldRetry returns false", async () => {
+    const fn = failTimes(5);
+    const shouldRetry = vi.fn((_err: Error, attempt: number) => attempt < 2);
+    const { sleep } = recordDelays();
+    const res = await retry(fn, { attempts: 5, shouldRetry, sleep });
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(res.err?.attempts).toEqual(2);
+    expect(shouldRetry).toHaveBeenCalledWith(new Error("attempt 1"), 1);
+  });
+
+  describe("with fake timers", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("should wait between attempts using setTimeout by default", async () => {
+      const fn = failTimes(1);
+      const res = retry(fn);
+      await vi.advanceTimersByTimeAsync(99);
+      expect(fn).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(await res).toEqual({ val: "ok" });
+    });
+
+    it("should use Math.random for jitter by default", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      const fn = failTimes(1);
+      const res = retry(fn, { jitter: true });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(await res).toEqual({ val: "ok" });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { RetryError } from "./errors";
+import { safeTry } from "./safe-try";
+import type { Result } from "./types";
+
+/**
+ * Delay policy between attempts: a built-in policy, or a function returning the delay in
+ * milliseconds after the given (1-based) failed attempt.
+ */
+export type Backoff = "exponential" | "linear" | ((attempt: number) => number);
+
+/**
+ * Options for customizing the behavior of `retry`.
+ */
+export type RetryOptions = {
+  /** Maximum number of attempts, including the first. Defaults to 3. */
+  attempts?: number;
+  /** Delay policy between attempts. Defaults to `"exponential"`. */
+  backoff?: Backoff;
+  /** Base delay for the built-in backoff policies, in milliseconds. Defaults to 100. */
+  delayMs?: number;
+  /** Upper bound for the delay between attempts, in milliseconds. */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the computed delay ("full jitter"). */
+  jitter?: boolean;
+  /**
+   * Decides whether to retry after a failed attempt. Returning `false` stops retrying.
+   */
+  shouldRetry?: (err: Error, attempt: number) => boolean;
+  /** Waits between attempts. Defaults to a `setTimeout`-based sleep. */
+  sleep?: (ms: number) => Promise<void>;
+  /** Random number source in [0, 1) used for jitter. Defaults to `Math.random`. */
+  random?: () => number;
+};
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function delayFor(attempt: number, options: RetryOptions): number {
+  const { backoff = "exponential", delayMs = 100 } = options;
+  const base =
+    backoff === "exponential"
+      ? delayMs * 2 ** (attempt - 1)
+      : backoff === "linear"
+        ? delayMs * attempt
+        : backoff(attempt);
+  const delay = Math.min(base, options.maxDelayMs ?? Infinity);
+  return options.jitter ? delay * (options.random ?? Math.random)() : delay;
+}
+
+/**
+ * Execute a function until it succeeds or runs out of attempts, waiting between attempts
+ * according to a backoff policy.
+ *
+ * Returns a `Result` containing either the first successful return value, or a {@link RetryError}
+ * listing the error from every attempt.
+ *
+ * *`retry` will ***never*** throw, unless an attempt panics (see `isPanic`), or `options.shouldRetry` or `options.sleep` throws. Panics are not retried.*
+ *
+ * @param fn - function to execute. It is passed the current (1-based) attempt number.
+ * @param options - optional {@link RetryOptions}
+ *
+ * @example
+ * ```typescript
+ * const res = await retry(() => fetch("/api/users"), {
+ *   attempts: 5,
+ *   backoff: "exponential",
+ *   jitter: true,
+ *   shouldRetry: (err) => !(err instanceof ValidationError),
+ * });
+ * if (res.err) {
+ *   console.error(`Failed after ${res.err.attempts} attempts`, res.err.errors);
+ * }
+ * ```
+ */
+export async function retry<T>(
+  fn: (attempt: number) => T | Promise<T>,
+  options: RetryOptions = {}
+): Promise<Result<T, RetryError>> {
+  const { attempts = 3, shouldRetry, sleep = defaultSleep } = options;
+  const errors: Error[] = [];
+  for (let attempt = 1; ; attempt++) {
+    const res = await safeTry(async () => fn(attempt));
+    if (!res.err) {
+      return { val: res.val };
+    }
+    errors.push(res.err);
+    if (attempt >= attempts || (shouldRetry && !shouldRetry(res.err, attempt))) {
+      return { err: new RetryError(errors) };
+    }
+    await sleep(delayFor(attempt, options));
+  }
+}
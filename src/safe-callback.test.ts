@@ -0,0 +1,51 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { safeCallback, type NodeCallback } from "./safe-callback";
+import type { Result } from "./types";
+
+describe(safeCallback, () => {
+  const readFile = (
+    path: string,
+    encoding: string,
+    callback: NodeCallback<string>
+  ) => {
+    setTimeout(() => {
+      if (path === "missing") {
+        callback(new Error("ENOENT"), "");
+      } else {
+        callback(null, `${path} (${encoding})`);
+      }
+    });
+  };
+
+  it("should return the callback's value", async () => {
+    const res = await safeCallback(readFile, "a.txt", "utf8");
+    expect(res).toEqual({ val: "a.txt (utf8)" });
+    expectTypeOf(res).toEqualTypeOf<Result<string>>();
+  });
+
+  it("should return the callback's error", async () => {
+    const res = await safeCallback(readFile, "missing", "utf8");
+    expect(res.err).toEqual(new Error("ENOENT"));
+  });
+
+  it("should coerce non-error values passed to the callback", async () => {
+    const res = await safeCallback((cb: NodeCallback<void>) => cb("bad"));
+    expect(res.err).toEqual(new Error("bad"));
+  });
+
+  it("should return errors thrown by the function", async () => {
+    const error = new Error();
+    const res = await safeCallback(() => {
+      throw error;
+    });
+    expect(res.err).toBe(error);
+  });
+
+  it("should only use the first callback invocation", async () => {
+    const res = await safeCallback((cb: NodeCallback<number>) => {
+      cb(undefined, 1);
+      cb(new Error(), 2);
+    });
+    expect(res).toEqual({ val: 1 });
+  });
+});
@@ -0,0 +1,49 @@
+import { safeTry } from "./safe-try";
+import type { Result } from "./types";
+
+/**
+ * A Node-style callback, called with an error or `null`/`undefined` followed by a value.
+ */
+export type NodeCallback<T> = (err: unknown, value: T) => void;
+
+/**
+ * Call a Node-style callback API, returning a `Promise<Result>` instead.
+ *
+ * The callback is appended to `args`. If it is called with an error, or if `fn` throws,
+ * the result contains the error. Otherwise, it contains the callback's value. Only the first
+ * callback invocation and value are used.
+ *
+ * *`safeCallback` will ***never*** throw or reject, unless the error is a panic (see `isPanic`).*
+ *
+ * @param fn - function taking a Node-style callback as its last argument
+ * @param args - arguments passed to `fn` before the callback
+ *
+ * @example
+ * ```typescript
+ * import { readFile } from "node:fs";
+ *
+ * const res = await safeCallback(readFile, "config.json", "utf8");
+ * if (res.err) {
+ *   console.error("Failed to read config:", res.err);
+ *   return;
+ * }
+ * const config = JSON.parse(res.val);
+ * ```
+ */
+export function safeCallback<A extends unknown[], T>(
+  fn: (...args: [...A, NodeCallback<T>]) => unknown,
+  ...args: A
+): Promise<Result<T>> {
+  return safeTry(
+    () =>
+      new Promise<T>((resolve, reject) => {
+        fn(...args, (err, value) => {
+          if (err !== null && err !== undefined) {
+            reject(err);
+          } else {
+            resolve(value);
+          }
+        });
+      })
+  );
+}
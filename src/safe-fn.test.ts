@@ -0,0 +1,102 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { safeAll, safeFn } from "./safe-fn";
+import type { Result } from "./types";
+
+describe(safeFn, () => {
+  const error = new Error("bad input");
+  const parse = (text: string, radix?: number) => {
+    const n = Number.parseInt(text, radix);
+    if (Number.isNaN(n)) {
+      throw error;
+    }
+    return n;
+  };
+
+  it("should return the function's value in a Result", () => {
+    const safeParse = safeFn(parse);
+    expect(safeParse("ff", 16)).toEqual({ val: 255 });
+    expect(safeParse("nope")).toEqual({ err: error });
+  });
+
+  it("should return a Promise for async functions", async () => {
+    const safeFetch = safeFn(async (id: number) => {
+      if (id < 0) {
+        throw error;
+      }
+      return { id };
+    });
+    expect(await safeFetch(1)).toEqual({ val: { id: 1 } });
+    expect(await safeFetch(-1)).toEqual({ err: error });
+  });
+
+  it("should preserve parameter and return types", () => {
+    expectTypeOf(safeFn(parse)).toEqualTypeOf<
+      (this: unknown, text: string, radix?: number) => Result<number>
+    >();
+    expectTypeOf(safeFn(async () => "a")).returns.toEqualTypeOf<
+      Promise<Result<string>>
+    >();
+  });
+
+  it("should pass this through", () => {
+    const counter = {
+      count: 1,
+      increment: safeFn(function (this: { count: number }, by: number) {
+        return (this.count += by);
+      }),
+    };
+    expect(counter.increment(2)).toEqual({ val: 3 });
+  });
+});
+
+describe(safeAll, () => {
+  class Api {
+    readonly baseUrl = "/api";
+    #token = "secret";
+
+    getToken() {
+      return this.#token;
+    }
+
+    async getUser(id: number) {
+      if (id < 0) {
+        throw new RangeError("invalid id");
+      }
+      return { id, url: `${this.baseUrl}/users/${id}` };
+    }
+  }
+
+  it("should convert every method, including inherited ones", async () => {
+    const api = safeAll(new Api());
+    expect(api.getToken()).toEqual({ val: "secret" });
+    expect(await api.getUser(1)).toEqual({ val: { id: 1, url: "/api/users/1" } });
+    expect((await api.getUser(-1)).err).toBeInstanceOf(RangeError);
+  });
+
+  it("should bind methods to the original object", () => {
+    const { getToken } = safeAll(new Api());
+    expect(getToken()).toEqual({ val: "secret" });
+  });
+
+  it("should leave other properties unchanged", () => {
+    const obj = { count: 1, double: () => 2 };
+    const safeObj = safeAll(obj);
+    expect(safeObj.count).toEqual(1);
+    obj.count = 2;
+    expect(safeObj.count).toEqual(2);
+  });
+
+  it("should return the same wrapper for each method", () => {
+    const api = safeAll(new Api());
+    expect(api.getUser).toBe(api.getUser);
+  });
+
+  it("should convert method types", () => {
+    const api = safeAll(new Api());
+    expectTypeOf(api.baseUrl).toEqualTypeOf<string>();
+    expectTypeOf(api.getToken).toEqualTypeOf<() => Result<string>>();
+    expectTypeOf(api.getUser).returns.toEqualTypeOf<
+      Promise<Result<{ id: number; url: string }>>
+    >();
+  });
+});
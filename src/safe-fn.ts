@@ -0,0 +1,85 @@
+import { safeTry } from "./safe-try";
+import type { Result } from "./types";
+
+type AnyFunction = (...args: never[]) => unknown;
+
+type SafeReturn<R> = R extends Promise<infer T> ? Promise<Result<T>> : Result<R>;
+
+/**
+ * A function with the same parameters as `F`, returning a `Result` instead of throwing.
+ *
+ * Async functions return a `Promise<Result>`. For overloaded functions, the last overload is used.
+ */
+export type SafeFn<F extends AnyFunction> = (
+  this: ThisParameterType<F>,
+  ...args: Parameters<F>
+) => SafeReturn<ReturnType<F>>;
+
+/**
+ * An object with every method of `O` converted to a {@link SafeFn} bound to the original object.
+ */
+export type SafeAll<O extends object> = {
+  [K in keyof O]: O[K] extends AnyFunction ? OmitThisParameter<SafeFn<O[K]>> : O[K];
+};
+
+/**
+ * Convert a function to one returning a `Result` instead of throwing.
+ *
+ * The returned function has the same parameters as `fn`, and passes its `this` through.
+ * If `fn` is async, it returns a `Promise<Result>`.
+ *
+ * @param fn - function to convert
+ *
+ * @see {@link safeAll} to convert every method of an object
+ *
+ * @example
+ * ```typescript
+ * const safeParse = safeFn(JSON.parse);
+ * const res = safeParse(text); // Result<any>
+ *
+ * const safeGetUser = safeFn(api.getUser.bind(api));
+ * const userRes = await safeGetUser(id); // Result<User>
+ * ```
+ */
+export function safeFn<F extends AnyFunction>(fn: F): SafeFn<F> {
+  return function (this: ThisParameterType<F>, ...args: Parameters<F>) {
+    // `safeTry` handles both sync and async return values at runtime
+    return safeTry(() => fn.apply(this, args) as Promise<unknown>);
+  } as SafeFn<F>;
+}
+
+/**
+ * Convert every method of an object or class instance to one returning a `Result`
+ * instead of throwing.
+ *
+ * Returns a proxy of `obj`: methods, including inherited ones, are converted with {@link safeFn}
+ * and bound to `obj`, while other properties are read from `obj` unchanged.
+ *
+ * @param obj - object whose methods to convert
+ *
+ * @example
+ * ```typescript
+ * const safeApi = safeAll(new ApiClient());
+ * const res = await safeApi.getUser(id); // Result<User>
+ * if (res.err) {
+ *   console.error("Failed to get user:", res.err);
+ * }
+ * ```
+ */
+export function safeAll<O extends object>(obj: O): SafeAll<O> {
+  const wrappers = new Map<AnyFunction, AnyFunction>();
+  return new Proxy(obj, {
+    get(target, key) {
+      const value: unknown = Reflect.get(target, key);
+      if (typeof value !== "function") {
+        return value;
+      }
+      let wrapper = wrappers.get(value as AnyFunction);
+      if (!wrapper) {
+        wrapper = safeFn(value.bind(target) as AnyFunction);
+        wrappers.set(value as AnyFunction, wrapper);
+      }
+      return wrapper;
+    },
+  }) as SafeAll<O>;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { AbortError, TimeoutError } from "./errors";
+import { safeOnce, type EventEmitterLike } from "./safe-once";
+import type { Result } from "./types";
+
+class Emitter implements EventEmitterLike {
+  readonly listeners = new Map<string | symbol, Set<(...args: unknown[]) => void>>();
+
+  on(eventName: string | symbol, listener: (...args: unknown[]) => void) {
+    const set = this.listeners.get(eventName) ?? new Set();
+    this.listeners.set(eventName, set.add(listener));
+  }
+
+  off(eventName: string | symbol, listener: (...args: unknown[]) => void) {
+    this.listeners.get(eventName)?.delete(listener);
+  }
+
+  emit(eventName: string | symbol, ...args: unknown[]) {
+    this.listeners.get(eventName)?.forEach((listener) => listener(...args));
+  }
+
+  listenerCount() {
+    return [...this.listeners.values()].reduce((n, set) => n + set.size, 0);
+  }
+}
+
+describe(safeOnce, () => {
+  it("should return the arguments of the first event", async () => {
+    const emitter = new Emitter();
+    const res = safeOnce<[string, number]>(emitter, "data");
+    emitter.emit("data", "a", 1);
+    emitter.emit("data", "b", 2);
+    expect(await res).toEqual({ val: ["a", 1] });
+    expectTypeOf(res).toEqualTypeOf<Promise<Result<[string, number]>>>();
+  });
+
+  it("should return the first error event", async () => {
+    const emitter = new Emitter();
+    const error = new Error();
+    const res = safeOnce(emitter, "data");
+    emitter.emit("error", error);
+    emitter.emit("data", "a");
+    expect(await res).toEqual({ err: error });
+  });
+
+  it("should remove its listeners once settled", async () => {
+    const emitter = new Emitter();
+    const res = safeOnce(emitter, "data");
+    expect(emitter.listenerCount()).toEqual(2);
+    emitter.emit("data");
+    await res;
+    expect(emitter.listenerCount()).toEqual(0);
+  });
+
+  it("should support event targets", async () => {
+    const target = new EventTarget();
+    const event = new Event("open");
+    const res = safeOnce<[Event]>(target, "open");
+    target.dispatchEvent(event);
+    expect(await res).toEqual({ val: [event] });
+
+    const failed = safeOnce(target, "open");
+    target.dispatchEvent(new Event("error"));
+    expect((await failed).err).toBeInstanceOf(Error);
+  });
+
+  it("should stop waiting on timeout or abort", async () => {
+    vi.useFakeTimers();
+    const emitter = new Emitter();
+    const res = safeOnce(emitter, "data", { timeoutMs: 10 });
+    vi.advanceTimersByTime(10);
+    expect((await res).err).toBeInstanceOf(TimeoutError);
+    expect(emitter.listenerCount()).toEqual(0);
+    vi.useRealTimers();
+
+    const aborted = await safeOnce(emitter, "data", { signal: AbortSignal.abort() });
+    expect(aborted.err).toBeInstanceOf(AbortError);
+    expect(emitter.listenerCount()).toEqual(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { type CancellationOptions, withCancellation } from "./cancellation";
+import { safeTry } from "./safe-try";
+import type { Result } from "./types";
+
+type Listener = (...args: unknown[]) => void;
+
+/**
+ * A Node-style event emitter, such as Node's `EventEmitter`.
+ */
+export type EventEmitterLike = {
+  on(eventName: string | symbol, listener: Listener): unknown;
+  off(eventName: string | symbol, listener: Listener): unknown;
+};
+
+/**
+ * A DOM-style event target, such as a `WebSocket` or `AbortSignal`.
+ */
+export type EventTargetLike = {
+  addEventListener(type: string, listener: Listener): unknown;
+  removeEventListener(type: string, listener: Listener): unknown;
+};
+
+/**
+ * Listens for `eventName` and `"error"` events, returning a function that removes both listeners.
+ */
+function listen(
+  emitter: EventEmitterLike | EventTargetLike,
+  eventName: string | symbol,
+  onEvent: (args: unknown[]) => void,
+  onError: (err: unknown) => void
+): () => void {
+  const eventListener: Listener = (...args) => {
+    removeListeners();
+    onEvent(args);
+  };
+  const errorListener: Listener = (err) => {
+    removeListeners();
+    onError(err);
+  };
+  const removeListeners =
+    "addEventListener" in emitter
+      ? () => {
+          emitter.removeEventListener(String(eventName), eventListener);
+          emitter.removeEventListener("error", errorListener);
+        }
+      : () => {
+          emitter.off(eventName, eventListener);
+          emitter.off("error", errorListener);
+        };
+  if ("addEventListener" in emitter) {
+    emitter.addEventListener(String(eventName), eventListener);
+    emitter.addEventListener("error", errorListener);
+  } else {
+    emitter.on(eventName, eventListener);
+    emitter.on("error", errorListener);
+  }
+  return removeListeners;
+}
+
+/**
+ * Wait for the first `eventName` event, returning a `Promise<Result>` containing the event's
+ * arguments, or the error if an `"error"` event is emitted first.
+ *
+ * Supports Node-style event emitters (`on`/`off`) and DOM-style event targets
+ * (`addEventListener`/`removeEventListener`). Listeners are removed once the result settles.
+ * Pass `timeoutMs` or `signal` to stop waiting with a `TimeoutError` or `AbortError`.
+ *
+ * *`safeOnce` will ***never*** throw or reject, unless the error is a panic (see `isPanic`).*
+ *
+ * @param emitter - event emitter or event target to listen to
+ * @param eventName - name of the event to wait for
+ * @param options - optional {@link CancellationOptions}
+ *
+ * @example
+ * ```typescript
+ * const res = await safeOnce<[Socket]>(server, "connection", { timeoutMs: 5000 });
+ * if (res.err) {
+ *   console.error("No connection:", res.err);
+ *   return;
+ * }
+ * const [socket] = res.val;
+ * ```
+ */
+export function safeOnce<T extends unknown[] = unknown[]>(
+  emitter: EventEmitterLike | EventTargetLike,
+  eventName: string | symbol,
+  options?: CancellationOptions
+): Promise<Result<T>> {
+  const controller = new AbortController();
+  const event = new Promise<T>((resolve, reject) => {
+    const removeListeners = listen(
+      emitter,
+      eventName,
+      (args) => resolve(args as T),
+      reject
+    );
+    controller.signal.addEventListener("abort", removeListeners);
+  });
+  return safeTry(() => withCancellation(event, controller, options));
+}
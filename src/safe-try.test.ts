@@ -1,6 +1,9 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, expectTypeOf, it } from "vitest";
+import { AbortError, PanicError, TimeoutError } from "./errors";
+import { isProgrammingError, panic, setPanicPredicate } from "./panic";
 import { safeTry } from "./safe-try";
 import { jsTypes } from "./test-helpers";
+import type { Result } from "./types";
 
 describe(safeTry, () => {
   it("should return val when the sync action succeeds", () => {
@@ -43,4 +46,221 @@ describe(safeTry, () => {
     expect(res.val).toBeUndefined();
     expect(res.err).toBe(expectedError);
   });
+
+  describe("with catch option", () => {
+    class HttpError extends Error {
+      status = 500;
+    }
+    class ValidationError extends Error {
+      field = "name";
+    }
+    const options = { catch: [HttpError, ValidationError] };
+
+    it("should narrow the error type to the listed classes", async () => {
+      const res = safeTry(() => 1, options);
+      expectTypeOf(res).toEqualTypeOf<Result<number, HttpError | ValidationError>>();
+      const asyncRes = safeTry(async () => 1, options);
+      expectTypeOf(asyncRes).toEqualTypeOf<
+        Promise<Result<number, HttpError | ValidationError>>
+      >();
+      await asyncRes;
+    });
+
+    it("should return val when the action succeeds", async () => {
+      expect(safeTry(() => 1, options).val).toEqual(1);
+      expect((await safeTry(async () => 1, options)).val).toEqual(1);
+    });
+
+    it("should return err when the sync action throws a listed error", () => {
+      const error = new ValidationError();
+      const res = safeTry(() => {
+        throw error;
+      }, options);
+      expect(res.err).toBe(error);
+    });
+
+    it("should return err when the async action throws a listed error", async () => {
+      const error = new HttpError();
+      const res = await safeTry(() => Promise.reject(error), options);
+      expect(res.err).toBe(error);
+    });
+
+    it("should re-throw unlisted errors from a sync action", () => {
+      const error = new TypeError();
+      expect(() =>
+        safeTry(() => {
+          throw error;
+        }, options)
+      ).toThrow(error);
+    });
+
+    it("should re-throw unlisted errors from an async action", async () => {
+      const error = "not an error";
+      await expect(safeTry(() => Promise.reject(error), options)).rejects.toBe(
+        error
+      );
+    });
+  });
+
+  describe("with mapErr option", () => {
+    type FetchError = { kind: "network" } | { kind: "unknown" };
+    const mapErr = (e: unknown): FetchError =>
+      e instanceof TypeError ? { kind: "network" } : { kind: "unknown" };
+
+    it("should type the error as the mapper's return type", async () => {
+      expectTypeOf(safeTry(() => 1, { mapErr })).toEqualTypeOf<
+        Result<number, FetchError>
+      >();
+      const asyncRes = safeTry(async () => 1, { mapErr });
+      expectTypeOf(asyncRes).toEqualTypeOf<Promise<Result<number, FetchError>>>();
+      await asyncRes;
+    });
+
+    it("should map errors thrown by a sync action", () => {
+      const res = safeTry(
+        () => {
+          throw new TypeError();
+        },
+        { mapErr }
+      );
+      expect(res.err).toEqual({ kind: "network" });
+    });
+
+    it("should map errors thrown by an async action", async () => {
+      const res = await safeTry(() => Promise.reject("oops"), { mapErr });
+      expect(res.err).toEqual({ kind: "unknown" });
+    });
+
+    it("should pass the raw thrown value to the mapper", () => {
+      const thrown = { code: 42 };
+      const res = safeTry(
+        () => {
+          throw thrown;
+        },
+        { mapErr: (e) => e }
+      );
+      expect(res.err).toBe(thrown);
+    });
+
+    it("should only map errors listed in catch", () => {
+      class HttpError extends Error {}
+      const options = { catch: [HttpError], mapErr: () => "http" };
+      expect(
+        safeTry(() => {
+          throw new HttpError();
+        }, options).err
+      ).toEqual("http");
+      expect(() =>
+        safeTry(() => {
+          throw new TypeError();
+        }, options)
+      ).toThrow(TypeError);
+    });
+
+    it("should reject a mapErr returning undefined", async () => {
+      const options = { mapErr: () => undefined };
+      expect(() =>
+        safeTry(() => {
+          throw new Error();
+        }, options)
+      ).toThrow("mapErr returned undefined");
+      await expect(
+        safeTry(() => Promise.reject(new Error()), options)
+      ).rejects.toThrow("mapErr returned undefined");
+    });
+  });
+
+  describe("cancellation", () => {
+    const wait = (signal: AbortSignal) =>
+      new Promise<never>((_, reject) => {
+        signal.addEventListener("abort", () => reject(new Error("stopped")));
+      });
+
+    it("should fail with a TimeoutError when the timeout expires", async () => {
+      const res = await safeTry(wait, { timeoutMs: 1 });
+      expect(res.err).toBeInstanceOf(TimeoutError);
+    });
+
+    it("should fail with an AbortError when the signal aborts", async () => {
+      const controller = new AbortController();
+      const res = safeTry(wait, { signal: controller.signal });
+      controller.abort();
+      expect((await res).err).toBeInstanceOf(AbortError);
+    });
+
+    it("should abort the signal passed to the action with the error", async () => {
+      let received: AbortSignal | undefined;
+      const res = await safeTry(
+        (signal) => {
+          received = signal;
+          return wait(signal);
+        },
+        { signal: AbortSignal.abort() }
+      );
+      expect(received?.aborted).toBe(true);
+      expect(received?.reason).toBe(res.err);
+    });
+
+    it("should return the value if the action finishes in time", async () => {
+      const res = await safeTry(async () => 1, { timeoutMs: 1000 });
+      expect(res).toEqual({ val: 1 });
+    });
+
+    it("should treat cancellation errors like any other error", async () => {
+      const res = await safeTry(wait, { timeoutMs: 1, mapErr: () => "timeout" });
+      expect(res.err).toEqual("timeout");
+      await expect(
+        safeTry(wait, { timeoutMs: 1, catch: [AbortError] })
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should reject with cancellation errors not listed in catch", async () => {
+      await expect(
+        safeTry(wait, { signal: AbortSignal.abort(), catch: [TimeoutError] })
+      ).rejects.toBeInstanceOf(AbortError);
+      const res = await safeTry(wait, {
+        timeoutMs: 1,
+        catch: [TimeoutError, AbortError],
+      });
+      expect(res.err).toBeInstanceOf(TimeoutError);
+    });
+  });
+
+  describe("panics", () => {
+    afterEach(() => {
+      setPanicPredicate();
+    });
+
+    it("should re-throw sync panics", () => {
+      expect(() => safeTry(() => panic("bug"))).toThrow(PanicError);
+    });
+
+    it("should re-throw async panics", async () => {
+      await expect(
+        safeTry(async () => {
+          await Promise.resolve();
+          panic("bug");
+        })
+      ).rejects.toBeInstanceOf(PanicError);
+    });
+
+    it("should re-throw panics before applying options", () => {
+      const options = { catch: [PanicError], mapErr: () => "mapped" };
+      expect(() => safeTry(() => panic("bug"), options)).toThrow(PanicError);
+    });
+
+    it("should re-throw errors matching the panic predicate", () => {
+      setPanicPredicate(isProgrammingError);
+      expect(() =>
+        safeTry(() => {
+          throw new TypeError("bug");
+        })
+      ).toThrow(TypeError);
+      expect(
+        safeTry(() => {
+          throw new Error("expected");
+        }).err
+      ).toEqual(new Error("expected"));
+    });
+  });
 });
@@ -1,5 +1,60 @@
+import { type CancellationOptions, withCancellation } from "./cancellation";
 import { coerceError } from "./coerce-error";
-import type { NotPromise, Result } from "./types";
+import { emitError } from "./hooks";
+import { isPanic } from "./panic";
+import type { ErrorClass, NotPromise, Result } from "./types";
+
+/**
+ * Options for customizing the behavior of `safeTry`.
+ *
+ * `timeoutMs` and `signal` only apply to async functions.
+ */
+export type SafeTryOptions = CancellationOptions & {
+  /**
+   * Error classes to catch. Errors that are not an instance of any listed class are re-thrown.
+   *
+   * The `err` type of the returned `Result` is narrowed to the union of the listed classes.
+   * This also applies to the `TimeoutError` and `AbortError` of `timeoutMs` and `signal`, which
+   * must be listed to be caught.
+   */
+  catch?: readonly ErrorClass[];
+  /**
+   * Converts thrown values to the `err` of the returned `Result`, in place of `coerceError`.
+   *
+   * When combined with `catch`, only caught errors are passed to the mapper. It must not return
+   * `undefined`, which would make the `Result` look successful.
+   */
+  mapErr?: (e: unknown) => unknown;
+};
+
+type SyncSafeTryOptions = Omit<SafeTryOptions, keyof CancellationOptions>;
+
+type CaughtError<C extends readonly ErrorClass[]> = InstanceType<C[number]>;
+
+type SafeTryError<O> = O extends { mapErr: (e: never) => infer E }
+  ? E
+  : O extends { catch: infer C extends readonly ErrorClass[] }
+    ? CaughtError<C>
+    : Error;
+
+function toErr(e: unknown, isAsync: boolean, options?: SafeTryOptions): unknown {
+  const err = coerceError(e);
+  emitError(err, "safeTry", isAsync);
+  if (isPanic(e)) {
+    throw e;
+  }
+  if (options?.catch && !options.catch.some((C) => e instanceof C)) {
+    throw e;
+  }
+  if (!options?.mapErr) {
+    return err;
+  }
+  const mapped = options.mapErr(e);
+  if (mapped === undefined) {
+    throw new TypeError("mapErr returned undefined");
+  }
+  return mapped;
+}
 
 /**
  * Execute a function, returning a `Result` object containing either the function's
@@ -7,9 +62,10 @@ import type { NotPromise, Result } from "./types";
  *
  * Supports both sync and async functions.
  *
- * *`safeTry` will ***never*** throw.*
+ * *`safeTry` will ***never*** throw, unless the error is a panic (see `isPanic`), `options.catch` is provided and the error, including a `TimeoutError` or `AbortError`, is not an instance of a listed class, or `options.mapErr` throws or returns `undefined`.*
  *
- * @param fn - function to execute
+ * @param fn - function to execute. When `options` are provided, async functions are passed an `AbortSignal` that aborts on timeout or cancellation.
+ * @param options - optional {@link SafeTryOptions}
  *
  * @example
  *
@@ -34,27 +90,71 @@ import type { NotPromise, Result } from "./types";
  * }
  * doSomethingWithUsers(usersRes.val);
  * ```
+ *
+ * ## Catching specific errors
+ *
+ * ```typescript
+ * const res = await safeTry(() => api.getUser(id), { catch: [HttpError, ValidationError] });
+ * if (res.err) {
+ *   // res.err is `HttpError | ValidationError`, any other error was re-thrown
+ * }
+ * ```
+ *
+ * ## Mapping errors
+ *
+ * ```typescript
+ * const res = await safeTry(() => fetch("/api/users"), {
+ *   mapErr: (e): FetchError => (e instanceof TypeError ? "network" : "unknown"),
+ * });
+ * ```
+ *
+ * ## Timeouts and cancellation
+ *
+ * ```typescript
+ * const res = await safeTry((signal) => fetch("/api/users", { signal }), {
+ *   timeoutMs: 5000,
+ * });
+ * if (res.err instanceof TimeoutError) {
+ *   displayErrorMsg("Request timed out");
+ * }
+ * ```
  */
 export function safeTry<T>(fn: () => NotPromise<T>): Result<T>;
 export function safeTry<T>(fn: () => Promise<T>): Promise<Result<T>>;
+export function safeTry<T, O extends SyncSafeTryOptions>(
+  fn: () => NotPromise<T>,
+  options: O
+): Result<T, SafeTryError<O>>;
+export function safeTry<T, O extends SafeTryOptions>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: O
+): Promise<Result<T, SafeTryError<O>>>;
 export function safeTry<T>(
-  fn: () => T | Promise<T>
-): Result<T> | Promise<Result<T>> {
+  fn: (signal: AbortSignal) => T | Promise<T>,
+  options?: SafeTryOptions
+): Result<T, unknown> | Promise<Result<T, unknown>> {
   try {
-    const result = fn();
+    // Only functions called with options are passed a signal
+    const controller = options ? new AbortController() : undefined;
+    const result = controller
+      ? fn(controller.signal)
+      : (fn as () => T | Promise<T>)();
     if (result instanceof Promise) {
-      return result.then(
+      const settled = controller
+        ? withCancellation(result, controller, options)
+        : result;
+      return settled.then(
         (v) => ({
           val: v,
         }),
         (e) => ({
-          err: coerceError(e),
+          err: toErr(e, true, options),
         })
       );
     } else {
       return { val: result };
     }
   } catch (e: unknown) {
-    return { err: coerceError(e) };
+    return { err: toErr(e, false, options) };
   }
 }
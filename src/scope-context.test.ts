@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Defer } from "./defer-stack";
+import scope from "./scope";
+import { currentDefer, setScopeStorage, type ScopeStorage } from "./scope-context";
+
+describe(currentDefer, () => {
+  it("should return undefined outside of a scope", () => {
+    expect(currentDefer()).toBeUndefined();
+  });
+
+  it("should return the defer function of the running scope", () => {
+    scope.throwing((defer) => {
+      expect(currentDefer()).toBe(defer);
+    });
+    expect(currentDefer()).toBeUndefined();
+  });
+
+  it("should let helpers register cleanup on the running scope", () => {
+    const results: string[] = [];
+    const helper = () => {
+      currentDefer()?.(() => results.push("helper cleanup"));
+    };
+    scope.throwing(() => {
+      helper();
+      results.push("action");
+    });
+    expect(results).toEqual(["action", "helper cleanup"]);
+  });
+
+  it("should link nested scopes to their parent", () => {
+    const results: string[] = [];
+    scope.throwing((outer) => {
+      expect(outer.parent).toBeUndefined();
+      scope.throwing((inner) => {
+        expect(inner.parent).toBe(outer);
+        expect(currentDefer()).toBe(inner);
+        inner.parent?.(() => results.push("outer cleanup"));
+        inner(() => results.push("inner cleanup"));
+      });
+      expect(currentDefer()).toBe(outer);
+      results.push("outer action");
+    });
+    expect(results).toEqual(["inner cleanup", "outer action", "outer cleanup"]);
+  });
+
+  it("should execute callbacks registered on a parent that already terminated", async () => {
+    const results: string[] = [];
+    let child: Promise<void> | undefined;
+    scope.throwing(() => {
+      child = scope.throwing(async (inner) => {
+        await Promise.resolve();
+        inner.parent?.(() => results.push("late parent cleanup"));
+        results.push("child action");
+      });
+      results.push("parent action");
+    });
+    await child;
+    expect(results).toEqual([
+      "parent action",
+      "late parent cleanup",
+      "child action",
+    ]);
+  });
+
+  it("should execute callbacks registered by detached work immediately", () => {
+    const deferred = vi.fn();
+    let captured: Defer | undefined;
+    scope.throwing(() => {
+      captured = currentDefer();
+      return 1;
+    });
+    captured?.(deferred);
+    expect(deferred).toHaveBeenCalledWith({ val: 1 });
+  });
+
+  it("should restore the previous scope if the scoped function throws", () => {
+    scope.safe(() => {
+      scope.safe(() => {
+        throw new Error();
+      });
+      expect(currentDefer()).toBeDefined();
+    });
+  });
+
+  it("should only track async scopes until their first await by default", async () => {
+    await scope.throwing(async (defer) => {
+      expect(currentDefer()).toBe(defer);
+      await Promise.resolve();
+      expect(currentDefer()).toBeUndefined();
+    });
+  });
+});
+
+describe(setScopeStorage, () => {
+  let restore: (() => void) | undefined;
+
+  afterEach(() => {
+    restore?.();
+  });
+
+  it("should use the provided storage to track the current scope", () => {
+    let store: Defer | undefined;
+    const storage: ScopeStorage = {
+      run: vi.fn((defer, fn) => {
+        store = defer;
+        return fn();
+      }),
+      getStore: () => store,
+    };
+    restore = setScopeStorage(storage);
+    scope.throwing((defer) => {
+      expect(storage.run).toHaveBeenCalledWith(defer, expect.any(Function));
+    });
+    expect(currentDefer()).toBeDefined();
+    setScopeStorage();
+    expect(currentDefer()).toBeUndefined();
+  });
+
+  it("should return a function that restores the previous storage", () => {
+    const storage: ScopeStorage = { run: (_, fn) => fn(), getStore: vi.fn() };
+    const restoreDefault = setScopeStorage(storage);
+    currentDefer();
+    expect(storage.getStore).toHaveBeenCalledOnce();
+    restoreDefault();
+    currentDefer();
+    expect(storage.getStore).toHaveBeenCalledOnce();
+  });
+});
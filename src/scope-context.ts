@@ -0,0 +1,90 @@
+import type { Defer } from "./defer-stack";
+
+/**
+ * Storage used to track the currently running scope. Compatible with Node's `AsyncLocalStorage`.
+ */
+export type ScopeStorage = {
+  run<R>(defer: Defer, fn: () => R): R;
+  getStore(): Defer | undefined;
+};
+
+/**
+ * Tracks the current scope while its function executes synchronously, i.e. until its first `await`.
+ */
+function createSyncStorage(): ScopeStorage {
+  let current: Defer | undefined;
+  return {
+    run(defer, fn) {
+      const parent = current;
+      current = defer;
+      try {
+        return fn();
+      } finally {
+        current = parent;
+      }
+    },
+    getStore: () => current,
+  };
+}
+
+const syncStorage = createSyncStorage();
+let storage = syncStorage;
+
+/**
+ * Set the storage used to track the currently running scope.
+ *
+ * By default, the current scope is only tracked until its function's first `await`. Pass an
+ * `AsyncLocalStorage` to track it across `await`s in async scopes.
+ *
+ * @param scopeStorage - storage to use, or `undefined` to restore the default
+ * @returns a function that restores the previous storage
+ *
+ * @example
+ * ```typescript
+ * import { AsyncLocalStorage } from "node:async_hooks";
+ *
+ * setScopeStorage(new AsyncLocalStorage());
+ * ```
+ */
+export function setScopeStorage(scopeStorage?: ScopeStorage): () => void {
+  const previous = storage;
+  storage = scopeStorage ?? syncStorage;
+  return () => {
+    storage = previous;
+  };
+}
+
+/**
+ * Get the `defer` function of the innermost running scope, or `undefined` if none is running.
+ *
+ * Lets helper code register cleanup on the caller's scope without being passed `defer`. Outer
+ * scopes can be reached through `defer.parent`.
+ *
+ * Cleanup registered after the scope has executed its deferred callbacks, e.g. by detached async
+ * work tracked with `AsyncLocalStorage`, is executed immediately.
+ *
+ * @see {@link setScopeStorage} to track the current scope across `await`s
+ *
+ * @example
+ * ```typescript
+ * function openConnection() {
+ *   const conn = db.connect();
+ *   currentDefer()?.(() => conn.close());
+ *   return conn;
+ * }
+ *
+ * scope.throwing(() => {
+ *   const conn = openConnection(); // closed when the scope terminates
+ * });
+ * ```
+ */
+export function currentDefer(): Defer | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Executes `fn` with `defer` as the current scope.
+ */
+export function runWithDefer<R>(defer: Defer, fn: () => R): R {
+  return storage.run(defer, fn);
+}
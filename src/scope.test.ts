@@ -1,7 +1,12 @@
-import { afterEach, describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import type { Defer } from "./defer-stack";
+import { AbortError, DeferError, PanicError, TimeoutError } from "./errors";
+import { onDeferError } from "./hooks";
+import { panic } from "./panic";
 import { safeTry } from "./safe-try";
-import scope from "./scope";
+import scope, { type ScopeOptions } from "./scope";
 import { jsTypes } from "./test-helpers";
+import type { Result } from "./types";
 
 describe("scope", () => {
   afterEach(() => {
@@ -16,15 +21,33 @@ describe("scope", () => {
     ];
   }
 
+  /**
+   * Records every Promise derived from it, so that tests can observe rejections left unhandled.
+   */
+  class TrackedPromise<T> extends Promise<T> {
+    static created: Promise<unknown>[] = [];
+
+    constructor(
+      executor: (
+        resolve: (value: T | PromiseLike<T>) => void,
+        reject: (reason?: unknown) => void
+      ) => void
+    ) {
+      super(executor);
+      TrackedPromise.created.push(this);
+    }
+  }
+
   type DeferFn<T> = (
-    action: (defer: (fn: () => void) => void) => T | Promise<T>
+    action: (defer: Defer) => T | Promise<T>,
+    options?: ScopeOptions
   ) => void | Promise<void>;
   function allVersions<T>(): DeferFn<T>[] {
     return [
       scope.safe,
       // @ts-expect-error - Fanagle typing
-      (fn) => safeTry(() => scope.throwing(fn)),
-      (fn) => scope.handled(() => {}, fn),
+      (fn, options) => safeTry(() => scope.throwing(fn, options)),
+      (fn, options) => scope.handled(() => {}, fn, options),
     ] as DeferFn<T>[];
   }
 
@@ -42,6 +65,132 @@ describe("scope", () => {
       }
     });
 
+    it("should execute defers in LIFO order when configured", () => {
+      for (const deferFn of allVersions()) {
+        const results: string[] = [];
+        const deferredFns = getDeferredFns(results);
+        deferFn(
+          (defer) => {
+            deferredFns.forEach(defer);
+          },
+          { order: "lifo" }
+        );
+        expect(results).toEqual(["defer 3", "defer 2", "defer 1"]);
+      }
+    });
+
+    it("should execute async defers in LIFO order when configured", async () => {
+      for (const deferFn of allVersions()) {
+        const results: string[] = [];
+        const deferredFns = getDeferredFns(results);
+        await deferFn(
+          async (defer) => {
+            deferredFns.forEach(defer);
+          },
+          { order: "lifo" }
+        );
+        expect(results).toEqual(["defer 3", "defer 2", "defer 1"]);
+      }
+    });
+
+    it("should dispose resources registered with defer.use", async () => {
+      for (const deferFn of allVersions()) {
+        const results: string[] = [];
+        const resource = {
+          [Symbol.dispose]: () => results.push("disposed"),
+        };
+        await deferFn(async (defer) => {
+          expect(defer.use(resource)).toBe(resource);
+          defer(() => results.push("deferred"));
+        });
+        expect(results).toEqual(["disposed", "deferred"]);
+      }
+    });
+
+    it("should dispose resources like using in sync scopes and await using in async scopes", async () => {
+      for (const deferFn of allVersions()) {
+        const results: string[] = [];
+        const resource = {
+          [Symbol.dispose]: () => results.push("dispose"),
+          [Symbol.asyncDispose]: async () => {
+            await Promise.resolve();
+            results.push("asyncDispose");
+          },
+        };
+        await deferFn((defer) => {
+          defer.use(resource);
+        });
+        expect(results).toEqual(["dispose"]);
+        await deferFn(async (defer) => {
+          defer.use(resource);
+        });
+        expect(results).toEqual(["dispose", "asyncDispose"]);
+      }
+    });
+
+    it("should pass the scope's outcome to defers", async () => {
+      const error = new Error();
+      for (const deferFn of allVersions()) {
+        const deferred = vi.fn();
+        deferFn((defer) => {
+          defer(deferred);
+          return 1;
+        });
+        await deferFn(async (defer) => {
+          defer(deferred);
+          throw error;
+        });
+        expect(deferred.mock.calls).toEqual([[{ val: 1 }], [{ err: error }]]);
+      }
+    });
+
+    it("should only execute onError defers if the scope fails", async () => {
+      const error = new Error();
+      for (const deferFn of allVersions()) {
+        const onError = vi.fn();
+        deferFn((defer) => {
+          defer.onError(onError);
+        });
+        expect(onError).not.toHaveBeenCalled();
+        await deferFn(async (defer) => {
+          defer.onError(onError);
+          throw error;
+        });
+        expect(onError).toHaveBeenCalledExactlyOnceWith(error);
+      }
+    });
+
+    it("should only execute onSuccess defers if the scope succeeds", async () => {
+      for (const deferFn of allVersions()) {
+        const onSuccess = vi.fn();
+        deferFn((defer) => {
+          defer.onSuccess(onSuccess);
+          throw new Error();
+        });
+        expect(onSuccess).not.toHaveBeenCalled();
+        await deferFn(async (defer) => {
+          defer.onSuccess(onSuccess);
+          return "OK";
+        });
+        expect(onSuccess).toHaveBeenCalledExactlyOnceWith("OK");
+      }
+    });
+
+    it("should execute defers registered by other defers", () => {
+      for (const deferFn of allVersions()) {
+        const results: string[] = [];
+        deferFn((defer) => {
+          defer(() => {
+            results.push("defer 1");
+            defer(() => {
+              results.push("defer 2");
+            });
+          });
+        });
+        expect(results).toEqual(["defer 1", "defer 2"]);
+      }
+    });
+
     it("should execute defers after the sync action succeeds", () => {
       for (const deferFn of allVersions()) {
         const results: string[] = [];
@@ -110,6 +259,60 @@ describe("scope", () => {
       }
     });
 
+    it("should await async defers in order before the async action settles", async () => {
+      for (const deferFn of allVersions()) {
+        const results: string[] = [];
+        await deferFn(async (defer) => {
+          defer(async () => {
+            await new Promise((r) => setTimeout(r, 5));
+            results.push("defer 1");
+          });
+          defer(async () => {
+            results.push("defer 2");
+          });
+          results.push("action");
+        });
+        expect(results).toEqual(["action", "defer 1", "defer 2"]);
+      }
+    });
+
+    it("should execute all defers even if an async defer rejects", async () => {
+      for (const deferFn of allVersions()) {
+        const defer2 = vi.fn();
+        await deferFn(async (defer) => {
+          defer(() => Promise.reject(new Error()));
+          defer(defer2);
+        });
+        expect(defer2).toHaveBeenCalled();
+      }
+    });
+
+    it("should report async defer rejections in a sync scope to hooks", async () => {
+      for (const deferFn of allVersions()) {
+        TrackedPromise.created = [];
+        const hook = vi.fn();
+        const unregister = onDeferError(hook);
+        const error = new Error();
+        deferFn((defer) => {
+          defer(() => TrackedPromise.reject(error));
+        });
+        await expect(TrackedPromise.created.at(-1)).resolves.toBeUndefined();
+        unregister();
+        expect(hook).toHaveBeenCalledWith(error, expect.anything());
+      }
+    });
+
+    it("should leave async defer rejections in a sync scope unhandled if nothing handles them", async () => {
+      for (const deferFn of allVersions()) {
+        TrackedPromise.created = [];
+        const error = new Error();
+        deferFn((defer) => {
+          defer(() => TrackedPromise.reject(error));
+        });
+        await expect(TrackedPromise.created.at(-1)).rejects.toBe(error);
+      }
+    });
+
     it("should handled nested defers", () => {
       for (const deferFn of allVersions()) {
         const results: string[] = [];
@@ -132,25 +335,53 @@ describe("scope", () => {
       }
     });
 
-    it("should log a warning if a defer throws", () => {
+    it("should pass defer errors to onDeferError when provided", () => {
       for (const deferFn of allVersions()) {
-        vi.spyOn(console, "warn").mockImplementation(() => {});
         const error = new Error();
-        deferFn((defer) => {
-          defer(() => {
-            throw error;
-          });
-        });
-        expect(console.warn).toHaveBeenCalledWith(
-          "Error thrown by deferred callback:",
-          error
+        const onDeferError = vi.fn();
+        deferFn(
+          (defer) => {
+            defer(() => {
+              throw error;
+            });
+          },
+          { onDeferError }
         );
+        expect(onDeferError).toHaveBeenCalledWith(error);
+      }
+    });
+
+    it("should pass async defer rejections to onDeferError when provided", async () => {
+      for (const deferFn of allVersions()) {
+        const error = new Error();
+        const onDeferError = vi.fn();
+        await deferFn(
+          async (defer) => {
+            defer(() => Promise.reject(error));
+          },
+          { onDeferError }
+        );
+        expect(onDeferError).toHaveBeenCalledWith(error);
+      }
+    });
+
+    it("should pass async defer rejections in a sync scope to onDeferError", async () => {
+      for (const deferFn of allVersions()) {
+        const error = new Error();
+        const onDeferError = vi.fn();
+        deferFn(
+          (defer) => {
+            defer(() => Promise.reject(error));
+          },
+          { onDeferError }
+        );
+        await Promise.resolve();
+        expect(onDeferError).toHaveBeenCalledWith(error);
       }
     });
 
     it("should execute all defers even if a defer throws", () => {
       for (const deferFn of allVersions()) {
-        vi.spyOn(console, "warn").mockImplementation(() => {});
         const error = new Error();
         const defer1 = vi.fn();
         const defer2 = vi.fn();
@@ -203,6 +434,415 @@ describe("scope", () => {
       const res = await scope.safe(() => Promise.reject(error));
       expect(res.err).toBe(error);
     });
+
+    it("should return a DeferError if a defer throws after the action succeeds", () => {
+      const error = new Error();
+      const res = scope.safe((defer) => {
+        defer(() => {
+          throw error;
+        });
+        return "OK";
+      });
+      expect(res.err).toBeInstanceOf(DeferError);
+      expect((res.err as DeferError).scopeError).toBeUndefined();
+      expect((res.err as DeferError).deferErrors).toEqual([error]);
+    });
+
+    it("should return a DeferError with the action's error if a defer throws", () => {
+      const actionError = new Error("action");
+      const deferErrors = [new Error("defer 1"), new Error("defer 2")];
+      const res = scope.safe((defer) => {
+        deferErrors.forEach((e) =>
+          defer(() => {
+            throw e;
+          })
+        );
+        throw actionError;
+      });
+      expect(res.err).toBeInstanceOf(DeferError);
+      expect((res.err as DeferError).scopeError).toBe(actionError);
+      expect((res.err as DeferError).errors).toEqual([actionError, ...deferErrors]);
+    });
+
+    it("should return a DeferError if an async defer rejects", async () => {
+      const actionError = new Error("action");
+      const deferError = new Error("defer");
+      const res = await scope.safe(async (defer) => {
+        defer(() => Promise.reject(deferError));
+        throw actionError;
+      });
+      expect(res.err).toBeInstanceOf(DeferError);
+      expect((res.err as DeferError).scopeError).toBe(actionError);
+      expect((res.err as DeferError).deferErrors).toEqual([deferError]);
+    });
+
+    it("should map errors with mapErr", async () => {
+      const mapErr = (e: Error) => e.message;
+      const res = scope.safe(
+        () => {
+          throw new Error("sync");
+        },
+        { mapErr }
+      );
+      expectTypeOf(res).toEqualTypeOf<Result<never, string>>();
+      expect(res.err).toEqual("sync");
+      const asyncRes = await scope.safe(
+        async () => {
+          throw new Error("async");
+        },
+        { mapErr }
+      );
+      expect(asyncRes.err).toEqual("async");
+    });
+
+    it("should pass values through when mapErr is provided", async () => {
+      const mapErr = vi.fn();
+      expect(scope.safe(() => 1, { mapErr }).val).toEqual(1);
+      expect((await scope.safe(async () => 1, { mapErr })).val).toEqual(1);
+      expect(mapErr).not.toHaveBeenCalled();
+    });
+
+    it("should reject a mapErr returning undefined", async () => {
+      const mapErr = () => undefined;
+      expect(() =>
+        scope.safe(
+          () => {
+            throw new Error();
+          },
+          { mapErr }
+        )
+      ).toThrow("mapErr returned undefined");
+      await expect(
+        scope.safe(
+          async () => {
+            throw new Error();
+          },
+          { mapErr }
+        )
+      ).rejects.toThrow("mapErr returned undefined");
+    });
+
+    it("should pass DeferErrors to mapErr", () => {
+      const res = scope.safe(
+        (defer) => {
+          defer(() => {
+            throw new Error();
+          });
+        },
+        { mapErr: (e) => e instanceof DeferError }
+      );
+      expect(res.err).toBe(true);
+    });
+
+    it("should not return a DeferError if onDeferError handles defer errors", () => {
+      const res = scope.safe(
+        (defer) => {
+          defer(() => {
+            throw new Error();
+          });
+          return "OK";
+        },
+        { onDeferError: () => {} }
+      );
+      expect(res.val).toEqual("OK");
+    });
+
+    it("should include errors thrown by onDeferError in the DeferError", () => {
+      const hookError = new Error();
+      const res = scope.safe(
+        (defer) => {
+          defer(() => {
+            throw new Error();
+          });
+        },
+        {
+          onDeferError: () => {
+            throw hookError;
+          },
+        }
+      );
+      expect((res.err as DeferError).deferErrors).toEqual([hookError]);
+    });
+
+    it("should fail with a TimeoutError and still run defers", async () => {
+      const deferred = vi.fn();
+      let received: AbortSignal | undefined;
+      const res = await scope.safe(
+        (defer, signal) => {
+          defer(deferred);
+          received = signal;
+          return new Promise<never>(() => {});
+        },
+        { timeoutMs: 1 }
+      );
+      expect(res.err).toBeInstanceOf(TimeoutError);
+      expect(received?.reason).toBe(res.err);
+      expect(deferred).toHaveBeenCalledOnce();
+    });
+
+    it("should execute defers registered after a timeout immediately", async () => {
+      const late = vi.fn();
+      const onDeferError = vi.fn();
+      const error = new Error("late cleanup failed");
+      let registerLate = () => {};
+      const res = await scope.safe(
+        (defer) => {
+          registerLate = () => {
+            defer(late);
+            defer(() => {
+              throw error;
+            });
+            defer(() => Promise.reject(error));
+          };
+          return new Promise<never>(() => {});
+        },
+        { timeoutMs: 1, onDeferError }
+      );
+      registerLate();
+      expect(late).toHaveBeenCalledWith(res);
+      await Promise.resolve();
+      expect(onDeferError.mock.calls).toEqual([[error], [error]]);
+    });
+
+    it("should re-throw unhandled errors from defers registered after a timeout", async () => {
+      const error = new Error("late cleanup failed");
+      let registerLate = () => {};
+      await scope.safe(
+        (defer) => {
+          registerLate = () =>
+            defer(() => {
+              throw error;
+            });
+          return new Promise<never>(() => {});
+        },
+        { timeoutMs: 1 }
+      );
+      expect(registerLate).toThrow(error);
+    });
+
+    it("should fail with an AbortError when the signal aborts", async () => {
+      const controller = new AbortController();
+      const res = scope.safe(
+        async (defer, signal) => {
+          await new Promise((resolve) => signal.addEventListener("abort", resolve));
+        },
+        { signal: controller.signal }
+      );
+      controller.abort();
+      expect((await res).err).toBeInstanceOf(AbortError);
+    });
+
+    it("should ignore cancellation options for sync actions", () => {
+      const res = scope.safe(() => 1, { signal: AbortSignal.abort(), timeoutMs: 0 });
+      expect(res).toEqual({ val: 1 });
+    });
+  });
+
+  describe("defer.replace", () => {
+    it("should replace the outcome of a sync scope", () => {
+      const res = scope.safe((defer) => {
+        defer.replace((outcome) => (outcome.err ? { val: "recovered" } : outcome));
+        throw new Error();
+      });
+      expect(res).toEqual({ val: "recovered" });
+    });
+
+    it("should replace the outcome of an async scope", async () => {
+      const error = new Error("rolled back");
+      const res = await scope.safe(async (defer) => {
+        defer.replace(async () => ({ err: error }));
+        return "OK";
+      });
+      expect(res).toEqual({ err: error });
+    });
+
+    it("should pass the replaced outcome to later defers", () => {
+      const deferred = vi.fn();
+      scope.safe((defer) => {
+        defer.replace(() => ({ val: 2 }));
+        defer(deferred);
+        return 1;
+      });
+      expect(deferred).toHaveBeenCalledWith({ val: 2 });
+    });
+
+    it("should not replace the outcome of a sync scope asynchronously", () => {
+      const res = scope.safe((defer) => {
+        defer.replace(async () => ({ val: 2 }));
+        return 1;
+      });
+      expect(res).toEqual({ val: 1 });
+    });
+
+    it("should keep the outcome if the replacement throws", () => {
+      const error = new Error("defer failed");
+      const res = scope.safe((defer) => {
+        defer.replace(() => {
+          throw error;
+        });
+        return 1;
+      });
+      expect((res.err as DeferError).deferErrors).toEqual([error]);
+      expect((res.err as DeferError).scopeError).toBeUndefined();
+    });
+
+    it("should let scope.throwing recover from errors", () => {
+      const val = scope.throwing((defer) => {
+        defer.replace(() => ({ val: "fallback" }));
+        throw new Error();
+      });
+      expect(val).toEqual("fallback");
+    });
+
+    it("should type the outcome with the scope's return type", async () => {
+      const res = scope.safe<number>((defer) => {
+        defer.onSuccess((val) => expectTypeOf(val).toEqualTypeOf<number>());
+        defer.replace((outcome) => (outcome.err ? { val: 0 } : outcome));
+        // @ts-expect-error - the replaced value must match the return type
+        defer.replace(() => ({ val: "0" }));
+        return 1;
+      });
+      expect(res).toEqual({ val: "0" });
+      const val = await scope.throwing<number>(async (defer) => {
+        // @ts-expect-error - the replaced value must match the return type
+        defer.replace(async () => ({ val: "0" }));
+        return 1;
+      });
+      expect(val).toEqual("0");
+    });
+
+    it("should still infer the return type of the scope", async () => {
+      expectTypeOf(scope.safe(() => 1)).toEqualTypeOf<Result<number>>();
+      expectTypeOf(scope.safe(async () => 1)).toEqualTypeOf<
+        Promise<Result<number>>
+      >();
+      expectTypeOf(scope.throwing(() => 1)).toEqualTypeOf<number>();
+      const val: Promise<number> = scope.throwing(async (defer) => {
+        defer.onSuccess(() => {});
+        return 1;
+      });
+      expect(await val).toEqual(1);
+    });
+  });
+
+  describe("panics", () => {
+    it("should re-throw sync panics after executing defers", () => {
+      const deferred = vi.fn();
+      expect(() =>
+        scope.safe((defer) => {
+          defer(deferred);
+          panic("bug");
+        })
+      ).toThrow(PanicError);
+      expect(deferred).toHaveBeenCalledWith({ err: new PanicError("bug") });
+    });
+
+    it("should re-throw async panics after executing defers", async () => {
+      const onError = vi.fn();
+      const deferred = vi.fn();
+      await expect(
+        scope.handled(onError, async (defer) => {
+          defer(deferred);
+          await Promise.resolve();
+          panic("bug");
+        })
+      ).rejects.toBeInstanceOf(PanicError);
+      expect(deferred).toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("should re-throw a DeferError if deferred actions also fail", () => {
+      let thrown: unknown;
+      try {
+        scope.safe((defer) => {
+          defer(() => {
+            throw new Error("cleanup failed");
+          });
+          panic("bug");
+        });
+      } catch (e) {
+        thrown = e;
+      }
+      expect(thrown).toBeInstanceOf(DeferError);
+      expect((thrown as DeferError).scopeError).toBeInstanceOf(PanicError);
+    });
+
+    it("should re-throw panics from deferred callbacks", async () => {
+      const onDeferError = vi.fn();
+      for (const options of [undefined, { onDeferError }]) {
+        let thrown: unknown;
+        try {
+          scope.safe((defer) => {
+            defer(() => panic("bug"));
+            return 1;
+          }, options);
+        } catch (e) {
+          thrown = e;
+        }
+        expect((thrown as DeferError).deferErrors).toEqual([new PanicError("bug")]);
+        await expect(
+          scope.safe(async (defer) => {
+            defer(() => panic("bug"));
+          }, options)
+        ).rejects.toBeInstanceOf(DeferError);
+      }
+      expect(onDeferError).not.toHaveBeenCalled();
+    });
+
+    it("should leave panics from async defers in a sync scope unhandled", async () => {
+      TrackedPromise.created = [];
+      const handleDeferError = vi.fn();
+      const hook = vi.fn();
+      const unregister = onDeferError(hook);
+      scope.safe(
+        (defer) => {
+          defer(() => TrackedPromise.reject(new PanicError("bug")));
+        },
+        { onDeferError: handleDeferError }
+      );
+      await expect(TrackedPromise.created.at(-1)).rejects.toBeInstanceOf(PanicError);
+      unregister();
+      expect(hook).toHaveBeenCalledOnce();
+      expect(handleDeferError).not.toHaveBeenCalled();
+    });
+
+    it("should re-throw panics from defers registered after a timeout", async () => {
+      const onDeferError = vi.fn();
+      let registerLate = () => {};
+      await scope.safe(
+        (defer) => {
+          registerLate = () => defer(() => panic("bug"));
+          return new Promise<never>(() => {});
+        },
+        { timeoutMs: 1, onDeferError }
+      );
+      expect(registerLate).toThrow(PanicError);
+      expect(onDeferError).not.toHaveBeenCalled();
+    });
+
+    it("should re-throw panics returned by nested scopes", () => {
+      const outerDeferred = vi.fn();
+      expect(() =>
+        scope.safe((defer) => {
+          defer(outerDeferred);
+          return scope.safe(() => panic("bug"));
+        })
+      ).toThrow(PanicError);
+      expect(outerDeferred).toHaveBeenCalled();
+    });
+
+    it("should let defer.replace recover from panics", () => {
+      const res = scope.safe((defer) => {
+        defer.replace(() => ({ val: "recovered" }));
+        panic("bug");
+      });
+      expect(res).toEqual({ val: "recovered" });
+    });
+
+    it("should not treat values returned by the scope as panics", () => {
+      const err = new PanicError("bug");
+      expect(scope.safe(() => err)).toEqual({ val: err });
+    });
   });
 
   describe("scope.throwing", () => {
@@ -243,6 +883,32 @@ describe("scope", () => {
       const res = await safeTry(() => scope.throwing(() => Promise.reject(error)));
       expect(res.err).toBe(error);
     });
+
+    it("should throw a DeferError if a defer throws", () => {
+      const deferError = new Error();
+      const res = safeTry(() =>
+        scope.throwing((defer) => {
+          defer(() => {
+            throw deferError;
+          });
+          return "OK";
+        })
+      );
+      expect(res.err).toBeInstanceOf(DeferError);
+      expect((res.err as DeferError).deferErrors).toEqual([deferError]);
+    });
+
+    it("should throw a DeferError if an async defer rejects", async () => {
+      const deferError = new Error();
+      const res = await safeTry(() =>
+        scope.throwing(async (defer) => {
+          defer(() => Promise.reject(deferError));
+          return "OK";
+        })
+      );
+      expect(res.err).toBeInstanceOf(DeferError);
+      expect((res.err as DeferError).deferErrors).toEqual([deferError]);
+    });
   });
 
   describe("scope.handled", () => {
@@ -282,5 +948,27 @@ describe("scope", () => {
       await scope.handled(onError, () => Promise.reject(error));
       expect(onError).toHaveBeenCalledWith(error);
     });
+
+    it("should call onError with a DeferError if a defer throws", () => {
+      const deferError = new Error();
+      const onError = vi.fn();
+      scope.handled(onError, (defer) => {
+        defer(() => {
+          throw deferError;
+        });
+      });
+      expect(onError).toHaveBeenCalledWith(expect.any(DeferError));
+      expect(onError.mock.calls[0][0].deferErrors).toEqual([deferError]);
+    });
+
+    it("should call onError with a DeferError if an async defer rejects", async () => {
+      const deferError = new Error();
+      const onError = vi.fn();
+      await scope.handled(onError, async (defer) => {
+        defer(() => Promise.reject(deferError));
+      });
+      expect(onError).toHaveBeenCalledWith(expect.any(DeferError));
+      expect(onError.mock.calls[0][0].deferErrors).toEqual([deferError]);
+    });
   });
 });
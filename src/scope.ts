@@ -1,31 +1,127 @@
+import { type CancellationOptions, withCancellation } from "./cancellation";
 import { coerceError } from "./coerce-error";
+import {
+  createDefer,
+  type Defer,
+  type DeferEntry,
+  type DeferStackOptions,
+  executeDefers,
+  executeDefersAsync,
+  executeLateDefer,
+} from "./defer-stack";
+import { emitError, type ErrorHookApi } from "./hooks";
+import { isPanic } from "./panic";
+import { currentDefer, runWithDefer } from "./scope-context";
 import type { NotPromise, Result } from "./types";
 
 /**
- * Registers a callback for execution after the scope terminates.
+ * Options for customizing the behavior of a scope.
+ *
+ * `timeoutMs` and `signal` only apply to async scopes. When an async scope times out or is
+ * cancelled, its registered defers are still executed before it settles. Callbacks the scoped
+ * function registers after that are executed immediately.
  */
-type Defer = (fn: () => void) => void;
-type DeferredCallback = () => void;
+export type ScopeOptions = CancellationOptions & DeferStackOptions;
+
+/**
+ * Options for `scope.safe`.
+ */
+export type SafeScopeOptions<E = Error> = ScopeOptions & {
+  /**
+   * Converts the scope's error to the `err` of the returned `Result`.
+   *
+   * Receives the error thrown by the scoped function, or a {@link DeferError} if any deferred actions failed.
+   * It must not return `undefined`, which would make the `Result` look successful.
+   */
+  mapErr?: (e: Error) => E;
+};
 
-function executeDefers(queue: DeferredCallback[]) {
-  for (let i = 0; i < queue.length; i++) {
-    try {
-      queue[i]();
-    } catch (e: unknown) {
-      console.warn("Error thrown by deferred callback:", e);
+/**
+ * Reports the scope's final error to the error hooks, and re-throws it if it is a panic.
+ */
+function settleScope<T>(
+  outcome: Result<T>,
+  api: ErrorHookApi,
+  isAsync: boolean
+): Result<T> {
+  if (outcome.err) {
+    emitError(outcome.err, api, isAsync);
+    if (isPanic(outcome.err)) {
+      throw outcome.err;
     }
   }
+  return outcome;
+}
+
+/**
+ * Runs the scoped function and its deferred actions, capturing the outcome as a `Result`.
+ *
+ * Panics are re-thrown once the deferred actions have executed, unless a `defer.replace`
+ * callback replaced the outcome.
+ */
+function runScope<T>(
+  api: ErrorHookApi,
+  codeScope: (defer: Defer<T>, signal: AbortSignal) => T | Promise<T>,
+  options?: ScopeOptions
+): Result<T> | Promise<Result<T>> {
+  const deferQueue: DeferEntry<T>[] = [];
+  // Set once the deferred actions have executed, e.g. while a cancelled scoped function is still running
+  let finalOutcome: Result<T> | undefined;
+  const register = (entry: DeferEntry<T>) => {
+    if (finalOutcome) {
+      executeLateDefer(entry, finalOutcome, options, api);
+    } else {
+      deferQueue.push(entry);
+    }
+  };
+  const finish = (outcome: Result<T>, isAsync: boolean) => {
+    finalOutcome = outcome;
+    return settleScope(outcome, api, isAsync);
+  };
+  const controller = new AbortController();
+  const defer = createDefer(register, currentDefer());
+  let res: T | Promise<T>;
+  try {
+    res = runWithDefer(defer, () => codeScope(defer, controller.signal));
+  } catch (e: unknown) {
+    const outcome = executeDefers<T>(
+      deferQueue,
+      { err: coerceError(e) },
+      options,
+      api
+    );
+    return finish(outcome, false);
+  }
+  if (res instanceof Promise) {
+    return withCancellation(res, controller, options)
+      .then(
+        (v): Result<T> => ({ val: v }),
+        (e: unknown): Result<T> => ({ err: coerceError(e) })
+      )
+      .then((outcome) => executeDefersAsync(deferQueue, outcome, options, api))
+      .then((outcome) => finish(outcome, true));
+  }
+  return finish(executeDefers(deferQueue, { val: res }, options, api), false);
+}
+
+function unwrapOutcome<T>(outcome: Result<T>): T {
+  if (outcome.err) {
+    throw outcome.err;
+  }
+  return outcome.val;
 }
 
 /**
  * Executes a scoped function with deferrable actions, returning a `Result` object.
  *
- * Deferred actions are executed in FIFO order after the scope completes.
- * If any deferred action throws, the error is logged with `console.warn` and remaining defers continue to execute.
+ * Deferred actions are executed in FIFO order after the scope completes, unless `options.order` is `"lifo"`.
+ * For async scopes, each deferred action is awaited in turn before the returned Promise settles.
+ * If any deferred action throws or rejects, remaining defers continue to execute and the failures are returned as a {@link DeferError} in `err`, unless handled by `options.onDeferError`. Sync scopes cannot wait for Promises returned by deferred actions, so their rejections are passed to `options.onDeferError` and the global `onDeferError` hooks instead, or left unhandled if neither is registered or the rejection is a panic.
  *
- * *`scope.safe` will ***never*** throw.*
+ * *`scope.safe` will ***never*** throw, unless the scope panics (see `isPanic`) or `options.mapErr` throws or returns `undefined`.*
  *
- * @param codeScope - The scoped function execute. It is passed a `defer` function that can be used to register callbacks that will be executed when the scope terminates.
+ * @param codeScope - The scoped function execute. It is passed a `defer` function that can be used to register callbacks that will be executed when the scope terminates, and an `AbortSignal` that aborts if the scope times out or is cancelled.
+ * @param options - optional {@link SafeScopeOptions} for the scope
  *
  * Other `scope` variations:
  * @see {@link throwing scope.throwing}
@@ -53,42 +149,56 @@ function executeDefers(queue: DeferredCallback[]) {
  * Result: OK
  * ```
  */
-export function safe<T>(codeScope: (defer: Defer) => NotPromise<T>): Result<T>;
-export function safe<T>(codeScope: (defer: Defer) => Promise<T>): Promise<Result<T>>;
-export function safe<T>(
-  codeScope: (defer: Defer) => T | Promise<T>
-): Result<T> | Promise<Result<T>> {
-  const deferQueue: DeferredCallback[] = [];
-  try {
-    const res = codeScope((fn) => deferQueue.push(fn));
-    if (res instanceof Promise) {
-      return res.then(
-        (v) => {
-          executeDefers(deferQueue);
-          return { val: v };
-        },
-        (e: unknown) => {
-          executeDefers(deferQueue);
-          return { err: coerceError(e) };
-        }
-      );
-    } else {
-      executeDefers(deferQueue);
-      return { val: res };
+export function safe<T, E, V extends T = T>(
+  codeScope: (defer: Defer<V>, signal: AbortSignal) => NotPromise<T>,
+  options: SafeScopeOptions<E> & { mapErr: (e: Error) => E }
+): Result<T, E>;
+export function safe<T, E, V extends T = T>(
+  codeScope: (defer: Defer<V>, signal: AbortSignal) => Promise<T>,
+  options: SafeScopeOptions<E> & { mapErr: (e: Error) => E }
+): Promise<Result<T, E>>;
+export function safe<T, V extends T = T>(
+  codeScope: (defer: Defer<V>, signal: AbortSignal) => NotPromise<T>,
+  options?: ScopeOptions
+): Result<T>;
+export function safe<T, V extends T = T>(
+  codeScope: (defer: Defer<V>, signal: AbortSignal) => Promise<T>,
+  options?: ScopeOptions
+): Promise<Result<T>>;
+export function safe<T, E>(
+  codeScope: (defer: Defer<T>, signal: AbortSignal) => T | Promise<T>,
+  options?: SafeScopeOptions<E>
+): Result<T, E | Error> | Promise<Result<T, E | Error>> {
+  const outcome = runScope("scope.safe", codeScope, options);
+  const mapErr = options?.mapErr;
+  if (!mapErr) {
+    return outcome;
+  }
+  const mapOutcome = (o: Result<T>): Result<T, E> => {
+    if (!o.err) {
+      return { val: o.val };
     }
-  } catch (e: unknown) {
-    executeDefers(deferQueue);
-    return { err: coerceError(e) };
+    const err = mapErr(o.err);
+    if (err === undefined) {
+      throw new TypeError("mapErr returned undefined");
+    }
+    return { err };
+  };
+  if (outcome instanceof Promise) {
+    return outcome.then(mapOutcome);
   }
+  return mapOutcome(outcome);
 }
 
 /**
  * Executes a scoped function with deferrable actions, re-throwing any errors.
  *
- * Deferred actions are executed in FIFO order after the scope completes.
- * If any deferred action throws, the error is logged with `console.warn` and remaining defers continue to execute.
+ * Deferred actions are executed in FIFO order after the scope completes, unless `options.order` is `"lifo"`.
+ * For async scopes, each deferred action is awaited in turn before the returned Promise settles.
+ * If any deferred action throws or rejects, remaining defers continue to execute and the failures are thrown as a {@link DeferError}, unless handled by `options.onDeferError`. Sync scopes cannot wait for Promises returned by deferred actions, so their rejections are passed to `options.onDeferError` and the global `onDeferError` hooks instead, or left unhandled if neither is registered or the rejection is a panic.
  *
- * @param codeScope - The scoped function execute. It is passed a `defer` function that can be used to register callbacks that will be executed when the scope terminates.
+ * @param codeScope - The scoped function execute. It is passed a `defer` function that can be used to register callbacks that will be executed when the scope terminates, and an `AbortSignal` that aborts if the scope times out or is cancelled.
+ * @param options - optional {@link ScopeOptions} for the scope
  * @returns the scoped function's return value
  * @throws errors thrown by the scoped function
  *
@@ -119,45 +229,38 @@ export function safe<T>(
  * Caught: uh oh!
  * ```
  */
-export function throwing<T>(codeScope: (defer: Defer) => NotPromise<T>): T;
-export function throwing<T>(codeScope: (defer: Defer) => Promise<T>): Promise<T>;
+// `NoInfer` stops a contextual type, e.g. `Promise<T>`, from inferring `T` for this overload
+export function throwing<T, V extends T = T>(
+  codeScope: (defer: Defer<V>, signal: AbortSignal) => NotPromise<T>,
+  options?: ScopeOptions
+): NoInfer<T>;
+export function throwing<T, V extends T = T>(
+  codeScope: (defer: Defer<V>, signal: AbortSignal) => Promise<T>,
+  options?: ScopeOptions
+): Promise<T>;
 export function throwing<T>(
-  codeScope: (defer: Defer) => T | Promise<T>
+  codeScope: (defer: Defer<T>, signal: AbortSignal) => T | Promise<T>,
+  options?: ScopeOptions
 ): T | Promise<T> {
-  const deferQueue: DeferredCallback[] = [];
-  try {
-    const res = codeScope((fn) => deferQueue.push(fn));
-    if (res instanceof Promise) {
-      return res.then(
-        (v) => {
-          executeDefers(deferQueue);
-          return v;
-        },
-        (e: unknown) => {
-          executeDefers(deferQueue);
-          throw coerceError(e);
-        }
-      );
-    } else {
-      executeDefers(deferQueue);
-      return res;
-    }
-  } catch (e: unknown) {
-    executeDefers(deferQueue);
-    throw coerceError(e);
+  const outcome = runScope("scope.throwing", codeScope, options);
+  if (outcome instanceof Promise) {
+    return outcome.then(unwrapOutcome);
   }
+  return unwrapOutcome(outcome);
 }
 
 /**
  * Executes a scoped function with deferrable actions, calling an error handler on failure.
  *
- * Deferred actions are executed in FIFO order after the scope completes.
- * If any deferred action throws, the error is logged with `console.warn` and remaining defers continue to execute.
+ * Deferred actions are executed in FIFO order after the scope completes, unless `options.order` is `"lifo"`.
+ * For async scopes, each deferred action is awaited in turn before the returned Promise settles.
+ * If any deferred action throws or rejects, remaining defers continue to execute and the failures are passed to `onError` as a {@link DeferError}, unless handled by `options.onDeferError`. Sync scopes cannot wait for Promises returned by deferred actions, so their rejections are passed to `options.onDeferError` and the global `onDeferError` hooks instead, or left unhandled if neither is registered or the rejection is a panic.
  *
- * *`scope.handled` will ***never*** throw.*
+ * *`scope.handled` will ***never*** throw, unless the scope panics (see `isPanic`).*
  *
  * @param onError - callback executed if an error is thrown
- * @param codeScope - The scoped function execute. It is passed a `defer` function that can be used to register callbacks that will be executed when the scope terminates.
+ * @param codeScope - The scoped function execute. It is passed a `defer` function that can be used to register callbacks that will be executed when the scope terminates, and an `AbortSignal` that aborts if the scope times out or is cancelled.
+ * @param options - optional {@link ScopeOptions} for the scope
  *
  * Other `scope` variations:
  * @see {@link safe scope.safe}
@@ -186,36 +289,29 @@ export function throwing<T>(
  */
 export function handled(
   onError: (e: Error) => void,
-  codeScope: (defer: Defer) => NotPromise<void>
+  codeScope: (defer: Defer<void>, signal: AbortSignal) => NotPromise<void>,
+  options?: ScopeOptions
 ): void;
 export function handled(
   onError: (e: Error) => void,
-  codeScope: (defer: Defer) => Promise<void>
+  codeScope: (defer: Defer<void>, signal: AbortSignal) => Promise<void>,
+  options?: ScopeOptions
 ): Promise<void>;
 export function handled(
   onError: (e: Error) => void,
-  codeScope: (defer: Defer) => void | Promise<void>
+  codeScope: (defer: Defer<void>, signal: AbortSignal) => void | Promise<void>,
+  options?: ScopeOptions
 ): void | Promise<void> {
-  const deferQueue: DeferredCallback[] = [];
-  try {
-    const res = codeScope((fn) => deferQueue.push(fn));
-    if (res instanceof Promise) {
-      return res.then(
-        (_) => {
-          executeDefers(deferQueue);
-        },
-        (e: unknown) => {
-          executeDefers(deferQueue);
-          onError(coerceError(e));
-        }
-      );
-    } else {
-      executeDefers(deferQueue);
+  const handleOutcome = (outcome: Result<void>) => {
+    if (outcome.err) {
+      onError(outcome.err);
     }
-  } catch (e) {
-    executeDefers(deferQueue);
-    onError(coerceError(e));
+  };
+  const outcome = runScope("scope.handled", codeScope, options);
+  if (outcome instanceof Promise) {
+    return outcome.then(handleOutcome);
   }
+  handleOutcome(outcome);
 }
 
 /**
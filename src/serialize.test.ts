@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import { ContextError, DeferError, RetryError } from "./errors";
+import {
+  deserializeError,
+  deserializeResult,
+  registerErrorClass,
+  serializeError,
+  serializeResult,
+  type SerializedError,
+  type SerializedResult,
+} from "./serialize";
+
+/** Simulates sending data over the wire. */
+const transport = <T>(data: T): T => JSON.parse(JSON.stringify(data)) as T;
+
+const roundTrip = (err: Error) => deserializeError(transport(serializeError(err)));
+
+describe(serializeError, () => {
+  it("should produce a versioned, JSON-compatible object", () => {
+    const err = new TypeError("bad type");
+    const data = serializeError(err);
+    expect(data).toEqual({
+      version: 1,
+      error: { name: "TypeError", message: "bad type", stack: err.stack },
+    });
+    expect(transport(data)).toEqual(data);
+  });
+
+  it("should encode custom fields and nested errors", () => {
+    const err = Object.assign(new Error("outer", { cause: "raw cause" }), {
+      code: "E_OUTER",
+      inner: new Error("inner"),
+    });
+    const { error } = serializeError(err);
+    expect(error.cause).toEqual("raw cause");
+    expect(error.fields).toEqual({
+      code: "E_OUTER",
+      inner: { $error: expect.objectContaining({ message: "inner" }) },
+    });
+  });
+
+  it("should replace circular references", () => {
+    const err = new Error("loop");
+    err.cause = err;
+    expect(serializeError(err).error.cause).toEqual("[Circular]");
+  });
+});
+
+describe(deserializeError, () => {
+  it("should preserve the name, message and stack", () => {
+    const err = new RangeError("out of range");
+    const copy = roundTrip(err);
+    expect(copy).toBeInstanceOf(RangeError);
+    expect(copy.name).toEqual("RangeError");
+    expect(copy.message).toEqual("out of range");
+    expect(copy.stack).toEqual(err.stack);
+    expect(Object.keys(copy)).toEqual([]);
+  });
+
+  it("should preserve the cause chain", () => {
+    const root = new TypeError("root");
+    const err = new Error("outer", { cause: new Error("middle", { cause: root }) });
+    const copy = roundTrip(err);
+    const middle = copy.cause as Error;
+    expect(middle.message).toEqual("middle");
+    expect(middle.cause).toBeInstanceOf(TypeError);
+    expect((middle.cause as Error).message).toEqual("root");
+  });
+
+  it("should preserve AggregateError members", () => {
+    const err = new AggregateError([new Error("a"), "b"], "many");
+    const copy = roundTrip(err) as AggregateError;
+    expect(copy).toBeInstanceOf(AggregateError);
+    expect(copy.errors).toEqual([new Error("a"), "b"]);
+  });
+
+  it("should not add a stack to errors without one", () => {
+    const err = new Error("no stack");
+    delete err.stack;
+    expect(roundTrip(err).stack).toBeUndefined();
+  });
+
+  it("should preserve custom fields", () => {
+    const err = Object.assign(new Error(), { code: "ENOENT", meta: { path: "/a" } });
+    expect(roundTrip(err)).toMatchObject({ code: "ENOENT", meta: { path: "/a" } });
+  });
+
+  it("should not let custom fields change the prototype", () => {
+    const data = transport(serializeError(new Error("bad")));
+    data.error.fields = JSON.parse(
+      '{"__proto__": {"isAdmin": true}, "constructor": "x"}'
+    ) as Record<string, unknown>;
+    const err = deserializeError(data);
+    expect(err).toBeInstanceOf(Error);
+    expect("isAdmin" in err).toBe(false);
+    expect(Object.getOwnPropertyDescriptor(err, "__proto__")?.value).toEqual({
+      isAdmin: true,
+    });
+    expect(Object.getOwnPropertyDescriptor(err, "constructor")?.value).toBe("x");
+  });
+
+  it("should rehydrate errgo-ts errors", () => {
+    const context = roundTrip(
+      new ContextError(
+        { message: "outer", requestId: 1 },
+        { cause: new ContextError({ message: "inner", userId: 2 }) }
+      )
+    );
+    expect(context).toBeInstanceOf(ContextError);
+    expect((context as ContextError).mergeContext()).toEqual({
+      requestId: 1,
+      userId: 2,
+    });
+
+    const defer = roundTrip(
+      new DeferError(new Error("scope"), [new Error("defer")])
+    );
+    expect(defer).toBeInstanceOf(DeferError);
+    expect(defer.name).toEqual("DeferError");
+    expect((defer as DeferError).deferErrors).toEqual([new Error("defer")]);
+
+    const retry = roundTrip(new RetryError([new Error("a")]));
+    expect(retry).toBeInstanceOf(RetryError);
+    expect((retry as RetryError).attempts).toEqual(1);
+  });
+
+  it("should rehydrate registered error classes", () => {
+    class HttpError extends Error {
+      override name = "HttpError";
+      status = 500;
+    }
+    const unregister = registerErrorClass(HttpError);
+    const copy = roundTrip(new HttpError("server error"));
+    expect(copy).toBeInstanceOf(HttpError);
+    expect((copy as HttpError).status).toEqual(500);
+    unregister();
+
+    const unregistered = roundTrip(new HttpError());
+    expect(unregistered).not.toBeInstanceOf(HttpError);
+    expect(unregistered.name).toEqual("HttpError");
+  });
+
+  it("should restore the previous class when unregistering", () => {
+    class CustomTypeError extends TypeError {}
+    const unregister = registerErrorClass(CustomTypeError, "TypeError");
+    expect(roundTrip(new TypeError())).toBeInstanceOf(CustomTypeError);
+    unregister();
+    unregister();
+    expect(roundTrip(new TypeError())).not.toBeInstanceOf(CustomTypeError);
+  });
+
+  it("should fall back to AggregateError for unknown aggregate errors", () => {
+    class BatchError extends AggregateError {
+      override name = "BatchError";
+    }
+    const copy = roundTrip(new BatchError([new Error()]));
+    expect(copy).toBeInstanceOf(AggregateError);
+    expect(copy.name).toEqual("BatchError");
+  });
+
+  it("should reject invalid data", () => {
+    const invalid = (data: unknown) => () =>
+      deserializeError(data as SerializedError);
+    expect(invalid(null)).toThrow(new TypeError("Invalid serialized error"));
+    expect(invalid({ version: 2, error: {} })).toThrow(
+      new TypeError("Unsupported serialization version: 2")
+    );
+    expect(invalid({ version: 1, error: { name: "Error" } })).toThrow(
+      new TypeError("Invalid serialized error")
+    );
+    expect(invalid({ version: 1, error: null })).toThrow(TypeError);
+  });
+});
+
+describe("serializeResult and deserializeResult", () => {
+  const roundTripResult = (data: SerializedResult) =>
+    deserializeResult(transport(data));
+
+  it("should round trip successful results", () => {
+    expect(roundTripResult(serializeResult({ val: { id: 1 } }))).toEqual({
+      val: { id: 1 },
+    });
+    expect(roundTripResult(serializeResult({ val: undefined }))).toEqual({
+      val: undefined,
+    });
+  });
+
+  it("should round trip failed results", () => {
+    const res = roundTripResult(serializeResult({ err: new TypeError("bad") }));
+    expect(res.err).toBeInstanceOf(TypeError);
+    expect(roundTripResult(serializeResult({ err: "not an error" }))).toEqual({
+      err: "not an error",
+    });
+  });
+
+  it("should serialize errors nested in values", () => {
+    const res = roundTripResult(serializeResult({ val: [new Error("a"), 1] }));
+    expect(res.val).toEqual([new Error("a"), 1]);
+  });
+
+  it("should round trip plain objects with keys like the error marker", () => {
+    const val = {
+      $error: "user data",
+      $$error: { $: 1 },
+      nested: [{ $error: null }],
+    };
+    expect(roundTripResult(serializeResult({ val }))).toEqual({ val });
+    expect(
+      roundTripResult(serializeResult({ err: { $error: { name: "Error" } } }))
+    ).toEqual({ err: { $error: { name: "Error" } } });
+  });
+
+  it("should copy other values as-is", () => {
+    const date = new Date(0);
+    expect(serializeResult({ val: { date } })).toEqual({
+      version: 1,
+      val: { date },
+    });
+  });
+
+  it("should reject invalid data", () => {
+    expect(() => deserializeResult("nope" as never)).toThrow(
+      new TypeError("Invalid serialized result")
+    );
+  });
+});
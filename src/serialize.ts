@@ -0,0 +1,338 @@
+import {
+  AbortError,
+  ContextError,
+  DeferError,
+  PanicError,
+  RetryError,
+  TimeoutError,
+} from "./errors";
+import type { ErrorClass, Result } from "./types";
+
+const SERIALIZATION_VERSION = 1;
+
+/**
+ * JSON-compatible representation of an error.
+ *
+ * `cause`, `errors` and `fields` values are encoded so that nested errors are preserved.
+ */
+export type SerializedErrorData = {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  /** Members of an `AggregateError`. */
+  errors?: unknown[];
+  /** Custom own properties, such as `code`. */
+  fields?: Record<string, unknown>;
+};
+
+/**
+ * Versioned, JSON-compatible representation of an error, produced by {@link serializeError}.
+ */
+export type SerializedError = {
+  version: typeof SERIALIZATION_VERSION;
+  error: SerializedErrorData;
+};
+
+/**
+ * Versioned, JSON-compatible representation of a `Result`, produced by {@link serializeResult}.
+ */
+export type SerializedResult =
+  | { version: typeof SERIALIZATION_VERSION; val: unknown; err?: undefined }
+  | { version: typeof SERIALIZATION_VERSION; err: unknown; val?: undefined };
+
+const registry = new Map<string, ErrorClass>([
+  ["Error", Error],
+  ["EvalError", EvalError],
+  ["RangeError", RangeError],
+  ["ReferenceError", ReferenceError],
+  ["SyntaxError", SyntaxError],
+  ["TypeError", TypeError],
+  ["URIError", URIError],
+  ["AggregateError", AggregateError],
+  ["AbortError", AbortError],
+  ["ContextError", ContextError],
+  ["DeferError", DeferError],
+  ["PanicError", PanicError],
+  ["RetryError", RetryError],
+  ["TimeoutError", TimeoutError],
+]);
+
+/**
+ * Register an error class so that deserialized errors with its name are rehydrated as instances of it.
+ *
+ * Built-in error classes and errgo-ts error classes are registered by default. Deserialized
+ * errors are created without calling the class constructor.
+ *
+ * @param errorClass - error class to register
+ * @param name - name to register the class under. Defaults to `errorClass.name`.
+ * @returns a function that unregisters the class
+ *
+ * @example
+ * ```typescript
+ * class HttpError extends Error {
+ *   override name = "HttpError";
+ * }
+ * registerErrorClass(HttpError);
+ *
+ * const err = deserializeError(serializeError(new HttpError()));
+ * console.assert(err instanceof HttpError);
+ * ```
+ */
+export function registerErrorClass(
+  errorClass: ErrorClass,
+  name?: string
+): () => void {
+  const key = name ?? errorClass.name;
+  const previous = registry.get(key);
+  registry.set(key, errorClass);
+  return () => {
+    if (registry.get(key) !== errorClass) {
+      return;
+    }
+    if (previous) {
+      registry.set(key, previous);
+    } else {
+      registry.delete(key);
+    }
+  };
+}
+
+const ERROR_KEY = "$error";
+
+/**
+ * Keys of plain objects starting with `$` are prefixed with another `$` when encoded, so that
+ * user data can't be mistaken for the `$error` marker.
+ */
+function escapeKey(key: string): string {
+  return key.startsWith("$") ? `$${key}` : key;
+}
+
+function unescapeKey(key: string): string {
+  return key.startsWith("$") ? key.slice(1) : key;
+}
+
+const RESERVED_KEYS = new Set(["name", "message", "stack", "cause", "errors"]);
+
+function isPlainObject(value: object): boolean {
+  const proto: unknown = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Encode a value as JSON-compatible data, replacing errors with `{ $error: SerializedErrorData }`
+ * and escaping the keys of plain objects with {@link escapeKey}.
+ */
+function encode(value: unknown, ancestors: object[]): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (ancestors.includes(value)) {
+    return "[Circular]";
+  }
+  ancestors.push(value);
+  try {
+    if (value instanceof Error) {
+      return { [ERROR_KEY]: encodeError(value, ancestors) };
+    }
+    if (Array.isArray(value)) {
+      return value.map((v: unknown) => encode(v, ancestors));
+    }
+    if (isPlainObject(value)) {
+      const entries = Object.entries(value).map(([k, v]): [string, unknown] => [
+        escapeKey(k),
+        v,
+      ]);
+      return encodeEntries(entries, ancestors);
+    }
+    return value;
+  } finally {
+    ancestors.pop();
+  }
+}
+
+function encodeEntries(
+  entries: [string, unknown][],
+  ancestors: object[]
+): Record<string, unknown> {
+  return Object.fromEntries(entries.map(([k, v]) => [k, encode(v, ancestors)]));
+}
+
+function encodeError(err: Error, ancestors: object[]): SerializedErrorData {
+  const data: SerializedErrorData = { name: err.name, message: err.message };
+  if (err.stack !== undefined) {
+    data.stack = err.stack;
+  }
+  if (err.cause !== undefined) {
+    data.cause = encode(err.cause, ancestors);
+  }
+  if (err instanceof AggregateError) {
+    data.errors = encode(err.errors, ancestors) as unknown[];
+  }
+  const fields = Object.entries(err).filter(([k]) => !RESERVED_KEYS.has(k));
+  if (fields.length > 0) {
+    data.fields = encodeEntries(fields, ancestors);
+  }
+  return data;
+}
+
+function decode(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+  if (ERROR_KEY in value) {
+    return decodeError(value[ERROR_KEY]);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [unescapeKey(k), decode(v)])
+  );
+}
+
+function isErrorData(data: unknown): data is SerializedErrorData {
+  if (typeof data !== "object" || data === null) {
+    return false;
+  }
+  const { name, message, stack, errors, fields } = data as Record<string, unknown>;
+  return (
+    typeof name === "string" &&
+    typeof message === "string" &&
+    (stack === undefined || typeof stack === "string") &&
+    (errors === undefined || Array.isArray(errors)) &&
+    (fields === undefined || (typeof fields === "object" && fields !== null))
+  );
+}
+
+function defineHidden(obj: object, key: string, value: unknown) {
+  Object.defineProperty(obj, key, {
+    value,
+    writable: true,
+    configurable: true,
+    enumerable: false,
+  });
+}
+
+function decodeError(data: unknown): Error {
+  if (!isErrorData(data)) {
+    throw new TypeError("Invalid serialized error");
+  }
+  const errorClass =
+    registry.get(data.name) ?? (data.errors ? AggregateError : Error);
+  // Create a native error with the class's prototype, without running its constructor
+  const err: Error =
+    errorClass.prototype instanceof AggregateError || errorClass === AggregateError
+      ? Reflect.construct(AggregateError, [[], data.message], errorClass)
+      : Reflect.construct(Error, [data.message], errorClass);
+  if (err.name !== data.name) {
+    defineHidden(err, "name", data.name);
+  }
+  defineHidden(err, "stack", data.stack);
+  if ("cause" in data) {
+    defineHidden(err, "cause", decode(data.cause));
+  }
+  if (data.errors) {
+    defineHidden(err, "errors", data.errors.map(decode));
+  }
+  for (const [key, value] of Object.entries(data.fields ?? {})) {
+    // Define fields rather than assigning them, so keys like `__proto__` stay plain data
+    Object.defineProperty(err, key, {
+      value: decode(value),
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    });
+  }
+  return err;
+}
+
+/**
+ * Check that `data` is an object in a supported serialization version.
+ */
+function checkVersion(data: unknown, kind: string): Record<string, unknown> {
+  if (typeof data !== "object" || data === null) {
+    throw new TypeError(`Invalid serialized ${kind}`);
+  }
+  const { version } = data as { version?: unknown };
+  if (version !== SERIALIZATION_VERSION) {
+    throw new TypeError(`Unsupported serialization version: ${String(version)}`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Convert an error to a versioned, JSON-compatible object that preserves its name, message,
+ * stack, cause chain, `AggregateError` members and custom fields.
+ *
+ * The result can be passed to `JSON.stringify`, `postMessage` or `structuredClone`, and converted
+ * back with {@link deserializeError}. Errors nested in causes and fields are serialized too.
+ *
+ * @param err - error to serialize
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify(serializeError(err));
+ * // ...
+ * const err = deserializeError(JSON.parse(body));
+ * ```
+ */
+export function serializeError(err: Error): SerializedError {
+  return { version: SERIALIZATION_VERSION, error: encodeError(err, [err]) };
+}
+
+/**
+ * Convert the output of {@link serializeError} back to an error.
+ *
+ * Errors are rehydrated as instances of the class registered under their name with
+ * {@link registerErrorClass}, falling back to `Error` or `AggregateError`.
+ *
+ * @param data - serialized error
+ * @throws TypeError if `data` is not a supported serialized error
+ */
+export function deserializeError(data: SerializedError): Error {
+  return decodeError(checkVersion(data, "error").error);
+}
+
+/**
+ * Convert a `Result` to a versioned, JSON-compatible object.
+ *
+ * Errors in `err`, or nested in `val`, are serialized as with {@link serializeError}. Other
+ * values are copied as-is, so they should be JSON-compatible.
+ *
+ * @param res - result to serialize
+ *
+ * @example
+ * ```typescript
+ * const res = await safeTry(() => processJob(job));
+ * parentPort.postMessage(serializeResult(res));
+ * // ...
+ * worker.on("message", (data) => {
+ *   const res = deserializeResult<JobOutput>(data);
+ * });
+ * ```
+ */
+export function serializeResult<T, E>(res: Result<T, E>): SerializedResult {
+  if (res.err !== undefined) {
+    return { version: SERIALIZATION_VERSION, err: encode(res.err, []) };
+  }
+  return { version: SERIALIZATION_VERSION, val: encode(res.val, []) };
+}
+
+/**
+ * Convert the output of {@link serializeResult} back to a `Result`.
+ *
+ * The `T` and `E` type parameters are not checked at runtime.
+ *
+ * @param data - serialized result
+ * @throws TypeError if `data` is not a supported serialized result
+ */
+export function deserializeResult<T = unknown, E = Error>(
+  data: SerializedResult
+): Result<T, E> {
+  const { val, err } = checkVersion(data, "result");
+  if (err !== undefined) {
+    return { err: decode(err) as E };
+  }
+  return { val: decode(val) as T };
+}
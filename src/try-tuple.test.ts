@@ -0,0 +1,48 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { jsTypes } from "./test-helpers";
+import { tryTuple } from "./try-tuple";
+import type { ResultTuple } from "./types";
+
+describe(tryTuple, () => {
+  it("should return [val, undefined] when the sync action succeeds", () => {
+    for (const expected of jsTypes) {
+      const [val, err] = tryTuple(() => expected);
+      expect(val).toBe(expected);
+      expect(err).toBeUndefined();
+    }
+  });
+
+  it("should return [undefined, err] when the sync action throws", () => {
+    const expectedError = new Error();
+    const [val, err] = tryTuple(() => {
+      throw expectedError;
+    });
+    expect(val).toBeUndefined();
+    expect(err).toBe(expectedError);
+  });
+
+  it("should return [val, undefined] when the async action succeeds", async () => {
+    for (const expected of jsTypes) {
+      const [val, err] = await tryTuple(async () => expected);
+      expect(val).toBe(expected);
+      expect(err).toBeUndefined();
+    }
+  });
+
+  it("should return [undefined, err] when the async action rejects", async () => {
+    const [val, err] = await tryTuple(() => Promise.reject("oops"));
+    expect(val).toBeUndefined();
+    expect(err).toEqual(new Error("oops"));
+  });
+
+  it("should narrow the value after checking the error", () => {
+    const res = tryTuple(() => 1);
+    expectTypeOf(res).toEqualTypeOf<ResultTuple<number>>();
+    const [val, err] = res;
+    if (err) {
+      expectTypeOf(val).toEqualTypeOf<undefined>();
+    } else {
+      expectTypeOf(val).toEqualTypeOf<number>();
+    }
+  });
+});
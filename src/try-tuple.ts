@@ -0,0 +1,49 @@
+import { toTuple } from "./result";
+import { safeTry } from "./safe-try";
+import type { NotPromise, ResultTuple } from "./types";
+
+/**
+ * Execute a function, returning a Go-style `[val, err]` tuple containing either the
+ * function's return value if successful, or an error if it throws.
+ *
+ * Supports both sync and async functions.
+ *
+ * *`tryTuple` will ***never*** throw, unless the error is a panic (see `isPanic`).*
+ *
+ * @param fn - function to execute
+ *
+ * @see {@link safeTry} for the equivalent returning a `Result` object
+ *
+ * @example
+ *
+ * ## Sync usage
+ *
+ * ```typescript
+ * const [data, err] = tryTuple(() => thisMightThrow());
+ * if (err) {
+ *   console.error("It failed:", err);
+ *   return;
+ * }
+ * doSomethingElse(data);
+ * ```
+ *
+ * ## Async usage
+ *
+ * ```typescript
+ * const [users, err] = await tryTuple(() => fetch("/api/users").then((r) => r.json()));
+ * if (err) {
+ *   displayErrorMsg("Failed to fetch users");
+ *   return;
+ * }
+ * doSomethingWithUsers(users);
+ * ```
+ */
+export function tryTuple<T>(fn: () => NotPromise<T>): ResultTuple<T>;
+export function tryTuple<T>(fn: () => Promise<T>): Promise<ResultTuple<T>>;
+export function tryTuple<T>(
+  fn: () => T | Promise<T>
+): ResultTuple<T> | Promise<ResultTuple<T>> {
+  // `toTuple` handles both the sync and async `safeTry` results at runtime
+  const res = safeTry(fn as () => Promise<T>);
+  return toTuple(res);
+}
@@ -38,7 +38,47 @@ export type Result<T, E = Error> =
   | { val: T; err?: undefined }
   | { err: E; val?: undefined };
 
+/**
+ * Object containing *either* a value or nothing.
+ *
+ * `Option` is a discriminated union on `some`: `val` is only present when `some` is `true`.
+ * Unlike `T | undefined`, it can represent a present `undefined` value.
+ *
+ * ```typescript
+ * const opt = Option.fromNullable(map.get(key));
+ * if (opt.some) {
+ *   bar(opt.val);
+ * }
+ * ```
+ */
+export type Option<T> = { some: true; val: T } | { some: false; val?: undefined };
+
+/**
+ * Go-style tuple containing *either* a value or an error.
+ *
+ * The first element is the value and the second is the error. Only one element is defined at a time.
+ *
+ * ```typescript
+ * const [data, err] = tryTuple(() => foo());
+ * if (err) {
+ *   console.error(err);
+ * } else {
+ *   bar(data);
+ * }
+ * ```
+ */
+export type ResultTuple<T, E = Error> =
+  | [val: T, err: undefined]
+  | [val: undefined, err: E];
+
 /**
  * Any type that is not a Promise.
  */
 export type NotPromise<T, U = unknown> = T extends Promise<U> ? never : T;
+
+/**
+ * Constructor of an `Error` class, e.g. `TypeError` or a custom `Error` subclass.
+ */
+export type ErrorClass<E extends Error = Error> = abstract new (
+  ...args: never[]
+) => E;
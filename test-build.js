@@ -1,13 +1,102 @@
-import { coerceError, propagateError, safeTry, scope } from "errgo-ts";
+import {
+  AbortError,
+  asError,
+  assertResult,
+  coerceError,
+  ContextError,
+  currentDefer,
+  DeferError,
+  DeferStack,
+  deserializeError,
+  deserializeResult,
+  doResult,
+  errorChain,
+  formatErrorChain,
+  isErr,
+  isError,
+  isOk,
+  isPanic,
+  isProgrammingError,
+  isResult,
+  onCoerce,
+  onDeferError,
+  onError,
+  Option,
+  panic,
+  PanicError,
+  propagateError,
+  recover,
+  registerCoercer,
+  registerErrorClass,
+  Result,
+  retry,
+  RetryError,
+  safeAll,
+  safeCallback,
+  safeFn,
+  safeOnce,
+  safeTry,
+  scope,
+  serializeError,
+  serializeResult,
+  setPanicPredicate,
+  setScopeStorage,
+  TimeoutError,
+  tryTuple,
+  unwrapOrReturn,
+} from "errgo-ts";
 
 if (
+  AbortError === undefined ||
+  asError === undefined ||
+  assertResult === undefined ||
   coerceError === undefined ||
+  ContextError === undefined ||
+  currentDefer === undefined ||
+  DeferError === undefined ||
+  DeferStack === undefined ||
+  deserializeError === undefined ||
+  deserializeResult === undefined ||
+  doResult === undefined ||
+  errorChain === undefined ||
+  formatErrorChain === undefined ||
+  isErr === undefined ||
+  isError === undefined ||
+  isOk === undefined ||
+  isPanic === undefined ||
+  isProgrammingError === undefined ||
+  isResult === undefined ||
+  onCoerce === undefined ||
+  onDeferError === undefined ||
+  onError === undefined ||
+  Option === undefined ||
+  Option.fromNullable === undefined ||
+  panic === undefined ||
+  PanicError === undefined ||
   propagateError === undefined ||
+  recover === undefined ||
+  registerCoercer === undefined ||
+  registerErrorClass === undefined ||
+  Result === undefined ||
+  Result.map === undefined ||
+  retry === undefined ||
+  RetryError === undefined ||
+  safeAll === undefined ||
+  safeCallback === undefined ||
+  safeFn === undefined ||
+  safeOnce === undefined ||
   safeTry === undefined ||
   scope === undefined ||
   scope.safe === undefined ||
   scope.throwing === undefined ||
-  scope.handled === undefined
+  scope.handled === undefined ||
+  serializeError === undefined ||
+  serializeResult === undefined ||
+  setPanicPredicate === undefined ||
+  setScopeStorage === undefined ||
+  TimeoutError === undefined ||
+  tryTuple === undefined ||
+  unwrapOrReturn === undefined
 ) {
   throw new Error("errgo-ts package exports not found");
 } else {